@@ -19,16 +19,22 @@ import "./App.scss";
 import { LiveAPIProvider } from "./contexts/LiveAPIContext";
 import { Altair } from "./components/altair/Altair";
 import ControlTray from "./components/control-tray/ControlTray";
+import Captions from "./components/captions/Captions";
 import cn from "classnames";
 import { LiveClientOptions } from "./types";
+import { createDefaultSceneStore } from "./lib/scene-store";
 
 const API_KEY = process.env.REACT_APP_GEMINI_API_KEY as string;
-if (typeof API_KEY !== "string") {
+// set to use a local mock Live server, see src/lib/mock-live
+const MOCK_LIVE_URL = process.env.REACT_APP_MOCK_LIVE_URL;
+if (typeof API_KEY !== "string" && !MOCK_LIVE_URL) {
   throw new Error("set REACT_APP_GEMINI_API_KEY in .env");
 }
 
 const apiOptions: LiveClientOptions = {
-  apiKey: API_KEY,
+  apiKey: API_KEY ?? "mock",
+  sceneStore: createDefaultSceneStore(),
+  mockServerUrl: MOCK_LIVE_URL,
 };
 
 function App() {
@@ -54,13 +60,14 @@ function App() {
                 autoPlay
                 playsInline
               />
+              <Captions />
             </div>
 
             <ControlTray
               videoRef={videoRef}
               supportsVideo={true}
               onVideoStreamChange={setVideoStream}
-              enableEditingSettings={false}
+              enableEditingSettings={true}
             >
               {/* put your own buttons here */}
             </ControlTray>
@@ -16,16 +16,18 @@
 import { useEffect, memo } from "react";
 import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
 import { Modality } from "@google/genai";
-
-// No function declarations needed for blind assistance
+import { sceneTools } from "../../lib/scene-tools";
 
 function AltairComponent() {
-  const { setConfig, setModel } = useLiveAPIContext();
+  const { client, tools, setConfig, setModel } = useLiveAPIContext();
 
   useEffect(() => {
     setModel("models/gemini-2.0-flash-exp");
     setConfig({
       responseModalities: [Modality.AUDIO],
+      // transcripts feed voice commands and navigation step parsing
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
       speechConfig: {
         voiceConfig: { prebuiltVoiceConfig: { voiceName: "Aoede" } },
       },
@@ -41,7 +43,7 @@ function AltairComponent() {
    - Changes in terrain or elevation
 
 2. SAFETY FIRST: Always prioritize user safety by:
-   - Warning about potential hazards immediately
+   - Warning about potential hazards immediately, call warn_hazard first so the user feels it even when they cannot hear you
    - Describing stairs, curbs, edges, or drop-offs
    - Identifying moving objects or people
    - Alerting to wet surfaces, debris, or obstacles
@@ -75,14 +77,24 @@ function AltairComponent() {
    - You have access to SCENE MEMORY that tracks user position and previously detected objects
    - When the user asks to navigate around obstacles or reach a goal:
      * First, detect and note object positions relative to the user
-     * Store these in your memory as coordinates
+     * Store each one with the report_object tool as coordinates, giving its category and a label that tells it apart from others of its kind
+     * Objects in scene memory have ids; pass the id to report_object when you see the same object again
+     * Use remove_object when an object is gone and merge_objects when two entries are the same thing
+     * Set the destination with the set_goal tool
      * Provide step-by-step instructions
-     * After each step, update the user's position
+     * After each step the user confirms, record their new position with the move_user tool
+     * When the user arrives, call mark_goal_reached
+     * Call clear_scene when the user moves to a different place
      * Continue guidance using remembered object positions, even if no longer visible
    - For navigation tasks:
      * Break down the path into clear steps (e.g., "Take 2 steps forward", "Turn 90 degrees right")
+     * When giving more than one step, number them as "Step 1:", "Step 2:" so the app can track them
+     * Say "You have arrived" once the user reaches the goal
      * Estimate positions using a coordinate system where user starts at [0,0]
      * Track objects like: "box at [3, 0]" means 3 units in front
+     * The user's heading is in degrees clockwise from the starting forward direction, 90 means facing right
+     * When a step includes a turn, pass the new heading to move_user
+     * Use the clock positions from scene memory, they already account for where the user faces
      * After each user movement, recalculate remaining steps based on new position
      * Don't stop until the user reaches their goal
    - Example workflow:
@@ -99,10 +111,19 @@ function AltairComponent() {
    - You will receive scene context in this format:
      --- SCENE MEMORY ---
      User Position: [x, y]
+     User Heading: degrees
      Detected Objects:
-     - object_name at [x, y] (relative: [rel_x, rel_y]) - description
-     Navigation Goal: goal_description
+     - object_label [id: object_id] at [x, y] (N o'clock, D steps away) - description
+     Navigation Goal: goal_description [x, y]
+     Planned Route:
+     1. Turn 90 degrees right, then take 2 steps forward (arrive at [x, y])
      --- END SCENE MEMORY ---
+   - Objects marked STALE have not been seen for a while and may have moved; tell the user you are unsure about them and re-check with the camera, then report_object again if they are still there
+   - When a Planned Route is present, give the user those steps one at a time instead of inventing your own route
+   - If it says there is no clear path, tell the user and describe the obstacles
+   - When the user gives a navigation command ("guide me to...", "done" or "next", "repeat that", "stop navigating", "where am I", "what's around me", "take me back", "forget this room", "reading mode", "battery saver"), call navigation_command with that intent; it starts, advances or ends navigation in the app, do not also call set_goal or move_user for it
+   - When the user wants to read a sign, label or screen, call navigation_command with intent "capture" and profile "reading" for sharper frames of the middle of the view, and switch back to "navigation" when they start walking
+   - After "take me back", a Retrace Route replaces the Planned Route; guide the user through its remaining steps one at a time, each "done" advances it through navigation_command
    - Use this information to provide continuous guidance even when objects move out of view
    - Always reference the scene memory when giving multi-step instructions
 
@@ -113,10 +134,14 @@ Remember: Your guidance helps someone navigate the world. Accuracy and clarity a
       tools: [
         // Google Search can be helpful for identifying products, signs, etc.
         { googleSearch: {} },
+        // scene memory and navigation tools are declared by the tool registry
       ],
     });
   }, [setConfig, setModel]);
 
+  // lets the model keep scene memory up to date during a session
+  useEffect(() => tools.register(...sceneTools(client)), [client, tools]);
+
   // No chart rendering needed for blind assistance
   return null;
 }
@@ -0,0 +1,69 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import "./captions.scss";
+import cn from "classnames";
+import { memo, useEffect, useRef } from "react";
+import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
+import { useCaptions } from "../../hooks/use-captions";
+
+const speakerNames = {
+  user: "You",
+  model: "Lumex",
+};
+
+/**
+ * Rolling captions of what the user and the assistant said.
+ * The visible transcript updates word by word, screen readers and braille
+ * displays are only sent each finished assistant turn through a separate
+ * live region, so partial text is not announced over and over.
+ */
+function Captions() {
+  const { client } = useLiveAPIContext();
+  const { turns, announcement } = useCaptions(client);
+  const listRef = useRef<HTMLOListElement>(null);
+
+  // keep the newest caption in view
+  useEffect(() => {
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [turns]);
+
+  return (
+    <section className="captions" aria-label="Captions">
+      <ol className="captions-list" ref={listRef} role="log" aria-live="off">
+        {turns.map((turn) => (
+          <li
+            key={turn.id}
+            className={cn("caption", turn.speaker, { pending: !turn.done })}
+          >
+            <span className="speaker">{speakerNames[turn.speaker]}</span>
+            <span className="text">
+              {turn.text}
+              {turn.interrupted && <span className="interrupted"> (interrupted)</span>}
+            </span>
+          </li>
+        ))}
+      </ol>
+      <div className="visually-hidden" aria-live="polite" aria-atomic="true">
+        {announcement}
+      </div>
+    </section>
+  );
+}
+
+export default memo(Captions);
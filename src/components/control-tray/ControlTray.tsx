@@ -16,14 +16,46 @@
 
 import cn from "classnames";
 
-import { memo, ReactNode, RefObject, useEffect, useRef, useState } from "react";
+import {
+  memo,
+  ReactNode,
+  RefObject,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
 import { UseMediaStreamResult } from "../../hooks/use-media-stream-mux";
 import { useScreenCapture } from "../../hooks/use-screen-capture";
 import { useWebcam } from "../../hooks/use-webcam";
+import { CameraDevice, useCameraDevices } from "../../hooks/use-camera-devices";
+import { nextCamera, pickCamera, useCameraStore } from "../../lib/camera-selection";
+import { MicrophoneDevice, useMicrophoneDevices } from "../../hooks/use-microphone-devices";
+import {
+  microphoneConstraints,
+  pickMicrophone,
+  useMicrophoneStore,
+} from "../../lib/microphone-selection";
 import { AudioRecorder } from "../../lib/audio-recorder";
-import { NavigationState, Position } from "../../types";
+import {
+  CaptureProfileName,
+  captureProfiles,
+  frameGeometry,
+  useCaptureStore,
+} from "../../lib/capture-profiles";
+import { FrameScheduler, SAMPLE_WIDTH, toGrayscale } from "../../lib/frame-scheduler";
+import { NavigationState, NavigationStep, Position } from "../../types";
+import { NavigationController } from "../../lib/navigation-controller";
+import { Haptics } from "../../lib/haptics";
+import { readRecording, recordingToBlob } from "../../lib/session-recorder";
+import { SpatialAudioMode, useSpatialAudioStore } from "../../lib/spatial-audio";
+import { VoiceCommands, VoiceIntent } from "../../lib/voice-commands";
+import { AudioSender, useVoiceActivityStore } from "../../lib/voice-activity";
+import { MIC_MODES, micLive, MicMode, micModes, useMicStore } from "../../lib/mic-mode";
 import AudioPulse from "../audio-pulse/AudioPulse";
+import SettingsDialog from "../settings-dialog/SettingsDialog";
 import "./control-tray.scss";
 
 export type ControlTrayProps = {
@@ -41,28 +73,74 @@ function ControlTray({
   supportsVideo,
   enableEditingSettings,
 }: ControlTrayProps) {
-  const videoStreams = [useWebcam({ facingMode: 'environment' }), useScreenCapture()];
+  // the chosen camera, or a fallback while it is unplugged
+  const { devices: cameras } = useCameraDevices();
+  const preferredCameraId = useCameraStore((state) => state.deviceId);
+  const setPreferredCameraId = useCameraStore((state) => state.setDeviceId);
+  const camera = pickCamera(cameras, preferredCameraId);
+  const [announcement, setAnnouncement] = useState("");
+  const activeCameraRef = useRef<CameraDevice | null>(null);
+  const switchedToCameraRef = useRef<string | null>(null);
+
+  const videoStreams = [
+    useWebcam({ facingMode: 'environment', deviceId: camera?.deviceId }),
+    useScreenCapture(),
+  ];
   const [activeVideoStream, setActiveVideoStream] =
     useState<MediaStream | null>(null);
-  const [webcam] = videoStreams;
+  const [webcam, screenCapture] = videoStreams;
   const [inVolume, setInVolume] = useState(0);
   const [audioRecorder] = useState(() => new AudioRecorder());
-  const [muted] = useState(false);
+  const micMode = useMicStore((state) => state.mode);
+  const setMicMode = useMicStore((state) => state.setMode);
+  // space or the mic button held down in push-to-talk
+  const [talkHeld, setTalkHeld] = useState(false);
+  const muted = !micLive(micMode, talkHeld);
+  const micModeRef = useRef(micMode);
+  const { devices: microphones } = useMicrophoneDevices();
+  const preferredMicrophoneId = useMicrophoneStore((state) => state.deviceId);
+  const microphoneProcessing = useMicrophoneStore((state) => state.processing);
+  const microphone = pickMicrophone(microphones, preferredMicrophoneId);
+  const activeMicrophoneRef = useRef<MicrophoneDevice | null>(null);
+  const [speaking, setSpeaking] = useState(false);
+  const audioSendMode = useVoiceActivityStore((state) => state.sendMode);
   const renderCanvasRef = useRef<HTMLCanvasElement>(null);
-
-  const { client, connected, connect, disconnect, volume } =
-    useLiveAPIContext();
+  const sampleCanvasRef = useRef<HTMLCanvasElement>(null);
+  // sends camera frames faster when the scene changes, see frame-scheduler.ts
+  const frameScheduler = useMemo(() => new FrameScheduler(), []);
+  const captureProfile = useCaptureStore((state) => captureProfiles[state.profile]);
+
+  const {
+    client,
+    tools,
+    spatialCues,
+    config,
+    connected,
+    reconnecting,
+    connect,
+    disconnect,
+    volume,
+  } = useLiveAPIContext();
 
   /**
    * Navigation State Management
    * Tracks whether multi-step navigation is active and the current scene state
    */
+  const navigation = useMemo(() => new NavigationController(client), [client]);
+  const voiceCommands = useMemo(
+    () => new VoiceCommands(client, navigation),
+    [client, navigation]
+  );
+  // vibrates for hazards, turns, completed steps and a dropped connection
+  const haptics = useMemo(() => new Haptics(client, navigation), [client, navigation]);
   const [navigationState, setNavigationState] = useState<NavigationState>({
+    status: "idle",
     active: false,
     currentStep: 0,
     steps: [],
     scene: {
       user: [0, 0],
+      heading: 0,
       objects: [],
       history: []
     }
@@ -82,8 +160,72 @@ function ControlTray({
     videoStreams.filter((msr) => msr !== next).forEach((msr) => msr.stop());
   };
 
-  // Auto-start webcam and connect on mount
+  /**
+   * Read out by screen readers, and by the assistant when connected
+   */
+  const announce = useCallback(
+    (text: string) => {
+      setAnnouncement(text);
+      if (client.status === "connected") {
+        client.send([{ text: `Tell me this briefly: ${text}` }]);
+      }
+    },
+    [client]
+  );
+
+  /**
+   * Tell the user when their camera was unplugged and another one took over
+   */
   useEffect(() => {
+    const previous = activeCameraRef.current;
+    activeCameraRef.current = camera;
+    if (
+      !camera ||
+      !previous ||
+      camera.deviceId === previous.deviceId ||
+      cameras.some((d) => d.deviceId === previous.deviceId)
+    ) {
+      return;
+    }
+    announce(`${previous.label} was disconnected, switched to ${camera.label}`);
+  }, [camera, cameras, announce]);
+
+  /**
+   * Switch cameras live when the choice changes or the camera is unplugged,
+   * the session stays connected and only the frames change
+   * Each camera is switched to once, so a browser reporting another device
+   * for the stream cannot make this loop
+   */
+  useEffect(() => {
+    const usingWebcam =
+      activeVideoStream !== null && activeVideoStream !== screenCapture.stream;
+    if (!camera || !usingWebcam) {
+      return;
+    }
+    const track = activeVideoStream.getVideoTracks()[0];
+    if (
+      (track?.readyState === "live" &&
+        track.getSettings().deviceId === camera.deviceId) ||
+      switchedToCameraRef.current === camera.deviceId
+    ) {
+      return;
+    }
+    switchedToCameraRef.current = camera.deviceId;
+    webcam.stop();
+    changeStreams(webcam)().catch((error) => {
+      console.error("could not switch camera", error);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [camera?.deviceId, activeVideoStream]);
+
+  // Auto-start webcam and connect once the app has set its config,
+  // connecting with the initial empty one would leave out transcription
+  const autoStartedRef = useRef(false);
+  useEffect(() => {
+    if (autoStartedRef.current || !Object.keys(config).length) {
+      return;
+    }
+    autoStartedRef.current = true;
     const autoStart = async () => {
       try {
         // Start webcam first
@@ -96,7 +238,7 @@ function ControlTray({
     };
     autoStart();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []); // Run once on mount
+  }, [config]);
 
   useEffect(() => {
     document.documentElement.style.setProperty(
@@ -105,24 +247,119 @@ function ControlTray({
     );
   }, [inVolume]);
 
+  /**
+   * Say when the mic mode changes, not for the mode restored on load
+   */
+  useEffect(() => {
+    setTalkHeld(false);
+    if (micModeRef.current !== micMode) {
+      micModeRef.current = micMode;
+      announce(micModes[micMode].announcement);
+    }
+  }, [micMode, announce]);
+
+  /**
+   * Tell the user when their microphone was unplugged and another one took over
+   */
+  useEffect(() => {
+    const previous = activeMicrophoneRef.current;
+    activeMicrophoneRef.current = microphone;
+    if (
+      !microphone ||
+      !previous ||
+      microphone.deviceId === previous.deviceId ||
+      microphones.some((d) => d.deviceId === previous.deviceId)
+    ) {
+      return;
+    }
+    announce(`${previous.label} was disconnected, switched to ${microphone.label}`);
+  }, [microphone, microphones, announce]);
+
+  /**
+   * Switch microphones or their processing live, the recorder keeps running
+   * Must run before the recording effect so the first start uses the choice
+   */
   useEffect(() => {
-    const onData = (base64: string) => {
-      client.sendRealtimeInput([
-        {
-          mimeType: "audio/pcm;rate=16000",
-          data: base64,
-        },
-      ]);
+    audioRecorder.setConstraints(
+      microphoneConstraints(microphone?.deviceId ?? null, microphoneProcessing)
+    );
+  }, [audioRecorder, microphone?.deviceId, microphoneProcessing]);
+
+  /**
+   * Hold space to talk, unless typing
+   */
+  useEffect(() => {
+    if (micMode !== "push-to-talk") {
+      return;
+    }
+    const isSpace = (e: KeyboardEvent) =>
+      e.code === "Space" &&
+      !(
+        e.target instanceof HTMLElement &&
+        (e.target.isContentEditable ||
+          ["INPUT", "TEXTAREA", "SELECT"].includes(e.target.tagName))
+      );
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isSpace(e)) {
+        // also keeps a focused button from being clicked
+        e.preventDefault();
+        setTalkHeld(true);
+      }
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (isSpace(e)) {
+        e.preventDefault();
+        setTalkHeld(false);
+      }
     };
-    if (connected && !muted && audioRecorder) {
-      audioRecorder.on("data", onData).on("volume", setInVolume).start();
+    const onBlur = () => setTalkHeld(false);
+
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    window.addEventListener("blur", onBlur);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+      window.removeEventListener("blur", onBlur);
+    };
+  }, [micMode]);
+
+  useEffect(() => {
+    // silence may be held back, see voice-activity.ts
+    const sender = new AudioSender(client, audioSendMode);
+    const onData = (base64: string) => sender.data(base64);
+    const onSpeechStart = () => {
+      setSpeaking(true);
+      sender.speechStart();
+    };
+    const onSpeechEnd = () => {
+      setSpeaking(false);
+      sender.speechEnd();
+    };
+    const live = connected && !muted;
+    if (live) {
+      audioRecorder
+        .on("data", onData)
+        .on("volume", setInVolume)
+        .on("speechstart", onSpeechStart)
+        .on("speechend", onSpeechEnd)
+        .start()
+        .catch((e) => console.error("could not start the microphone", e));
     } else {
       audioRecorder.stop();
+      setSpeaking(false);
     }
     return () => {
-      audioRecorder.off("data", onData).off("volume", setInVolume);
+      audioRecorder
+        .off("data", onData)
+        .off("volume", setInVolume)
+        .off("speechstart", onSpeechStart)
+        .off("speechend", onSpeechEnd);
+      if (live) {
+        sender.stop();
+      }
     };
-  }, [connected, client, muted, audioRecorder]);
+  }, [connected, client, muted, audioRecorder, audioSendMode]);
 
   useEffect(() => {
     if (videoRef.current) {
@@ -130,26 +367,51 @@ function ControlTray({
     }
 
     let timeoutId = -1;
+    // a new profile starts over, so its first frame is sent right away
+    frameScheduler.options.maxFps = 1000 / captureProfile.intervalMs;
+    frameScheduler.reset();
 
     function sendVideoFrame() {
       const video = videoRef.current;
       const canvas = renderCanvasRef.current;
+      const sampleCanvas = sampleCanvasRef.current;
 
-      if (!video || !canvas) {
+      if (!video || !canvas || !sampleCanvas) {
         return;
       }
 
       const ctx = canvas.getContext("2d")!;
-      canvas.width = video.videoWidth * 0.25;
-      canvas.height = video.videoHeight * 0.25;
+      const { sx, sy, sw, sh, width, height } = frameGeometry(
+        captureProfile,
+        video.videoWidth,
+        video.videoHeight
+      );
+      canvas.width = width;
+      canvas.height = height;
+      let delayMs = 1000 / frameScheduler.rate;
       if (canvas.width + canvas.height > 0) {
-        ctx.drawImage(videoRef.current, 0, 0, canvas.width, canvas.height);
-        const base64 = canvas.toDataURL("image/jpeg", 1.0);
-        const data = base64.slice(base64.indexOf(",") + 1, Infinity);
-        client.sendRealtimeInput([{ mimeType: "image/jpeg", data }]);
+        ctx.drawImage(videoRef.current, sx, sy, sw, sh, 0, 0, width, height);
+
+        // only encode and send frames that show something new
+        const sampleCtx = sampleCanvas.getContext("2d", { willReadFrequently: true })!;
+        sampleCanvas.width = SAMPLE_WIDTH;
+        sampleCanvas.height = Math.max(1, Math.round((SAMPLE_WIDTH * canvas.height) / canvas.width));
+        sampleCtx.drawImage(canvas, 0, 0, sampleCanvas.width, sampleCanvas.height);
+        const { data: rgba } = sampleCtx.getImageData(0, 0, sampleCanvas.width, sampleCanvas.height);
+        const decision = frameScheduler.next(toGrayscale(rgba));
+        delayMs = decision.delayMs;
+
+        if (decision.send) {
+          const base64 = canvas.toDataURL("image/jpeg", captureProfile.quality);
+          const data = base64.slice(base64.indexOf(",") + 1, Infinity);
+          client.sendRealtimeInput(
+            [{ mimeType: "image/jpeg", data }],
+            `${captureProfile.name} ${width}x${height} q${captureProfile.quality}`
+          );
+        }
       }
       if (connected) {
-        timeoutId = window.setTimeout(sendVideoFrame, 1000 / 0.5);
+        timeoutId = window.setTimeout(sendVideoFrame, delayMs);
       }
     }
     if (connected && activeVideoStream !== null) {
@@ -158,15 +420,18 @@ function ControlTray({
     return () => {
       clearTimeout(timeoutId);
     };
-  }, [connected, activeVideoStream, client, videoRef]);
+  }, [connected, activeVideoStream, client, videoRef, frameScheduler, captureProfile]);
+
+  // keep frames coming while the user is being guided
+  useEffect(() => {
+    frameScheduler.navigating = navigationState.active;
+  }, [frameScheduler, navigationState.active]);
 
   /**
-   * Listen to scene updates from the client
+   * Listen to scene updates from the client and to the navigation controller
    * This syncs the navigation state with the client's scene memory
    */
   useEffect(() => {
-    if (!client) return;
-
     const handleSceneUpdate = (scene: typeof navigationState.scene) => {
       setNavigationState(prev => ({
         ...prev,
@@ -174,12 +439,64 @@ function ControlTray({
       }));
     };
 
+    const handleNavigationChange = () => {
+      setNavigationState(prev => ({
+        ...prev,
+        ...navigation.getState()
+      }));
+    };
+
+    const logStep = (step: NavigationStep, index: number) => {
+      console.log(`[NAV] Step ${index + 1}:`, step.instruction);
+    };
+
     client.on('sceneupdate', handleSceneUpdate);
+    navigation.attach();
+    navigation
+      .on('statechange', handleNavigationChange)
+      .on('steps', handleNavigationChange)
+      .on('step', handleNavigationChange)
+      .on('step', logStep);
 
     return () => {
       client.off('sceneupdate', handleSceneUpdate);
+      navigation.detach();
+      navigation
+        .off('statechange', handleNavigationChange)
+        .off('steps', handleNavigationChange)
+        .off('step', handleNavigationChange)
+        .off('step', logStep);
     };
-  }, [client]);
+  }, [client, navigation]);
+
+  /**
+   * Hands-free navigation commands, e.g. "guide me to the door" or "done"
+   */
+  useEffect(() => {
+    const logCommand = (intent: VoiceIntent, result: string) => {
+      console.log(`[NAV] Voice command ${intent.type}:`, result);
+    };
+
+    voiceCommands.attach();
+    voiceCommands.on('command', logCommand);
+    const unregister = tools.register(voiceCommands.tool());
+
+    return () => {
+      voiceCommands.detach();
+      voiceCommands.off('command', logCommand);
+      unregister();
+    };
+  }, [voiceCommands, tools]);
+
+  useEffect(() => {
+    haptics.attach();
+    const unregister = tools.register(haptics.tool());
+
+    return () => {
+      haptics.detach();
+      unregister();
+    };
+  }, [haptics, tools]);
 
   /**
    * Enhanced message sender with navigation awareness
@@ -229,44 +546,35 @@ function ControlTray({
    *
    * To test navigation:
    * 1. User says: "There is a box in front of me. Help me get to the other side."
-   * 2. System detects objects and sets up scene
-   * 3. Queries Gemini with scene context for step-by-step instructions
-   * 4. After each step, updates user position and queries again
+   * 2. The controller sends the goal with scene context, status is "planning"
+   * 3. Gemini's reply is parsed into steps, status is "awaiting-step-confirmation"
+   * 4. After each step the user confirms, the controller updates the user
+   *    position and asks for the next step until the final step is confirmed
    */
   const startNavigation = (goalDescription: string) => {
     console.log("[NAV] Starting navigation with goal:", goalDescription);
+    navigation.start(goalDescription);
+  };
 
-    // Set navigation goal in client's scene memory
-    client.setNavigationGoal(goalDescription);
-
-    // Activate navigation state
-    setNavigationState(prev => ({
-      ...prev,
-      active: true,
-      scene: {
-        ...prev.scene,
-        goalDescription
-      }
-    }));
-
-    // Query Gemini with scene context for first navigation step
-    const query = `I need to navigate: ${goalDescription}. What objects do you see and what should I do first?`;
-    client.send([{ text: query }], true, true); // includeSceneContext = true
+  /**
+   * Guide the user back the way they came
+   * Without a timestamp the route leads back to where history starts
+   */
+  const startRetrace = (timestamp?: number) => {
+    if (!navigation.retrace(timestamp)) {
+      console.log("[NAV] Nothing to retrace");
+      return null;
+    }
+    return navigation.steps;
   };
 
   /**
-   * Update user position after completing a navigation step
+   * Confirm the current navigation step
    * This is called after the user confirms they've completed an instruction
    */
-  const updateNavigationStep = (newPosition: Position, action: string) => {
-    console.log("[NAV] Updating position to:", newPosition, "after:", action);
-
-    // Update position in client's scene memory
-    client.updateUserPosition(newPosition, action);
-
-    // Query for next step with updated scene context
-    const query = "I completed that step. What's next?";
-    client.send([{ text: query }], true, true); // includeSceneContext = true
+  const updateNavigationStep = (newPosition?: Position, action?: string) => {
+    console.log("[NAV] Step confirmed at:", newPosition, "after:", action);
+    navigation.confirmStep(newPosition, action);
   };
 
   /**
@@ -274,13 +582,7 @@ function ControlTray({
    */
   const completeNavigation = () => {
     console.log("[NAV] Navigation complete");
-
-    setNavigationState(prev => ({
-      ...prev,
-      active: false,
-      currentStep: 0,
-      steps: []
-    }));
+    navigation.complete();
   };
 
   // Example: Expose navigation functions for testing
@@ -290,13 +592,33 @@ function ControlTray({
       // Make functions available globally for testing in console
       (window as any).lumaNav = {
         start: startNavigation,
+        retrace: startRetrace,
         updateStep: updateNavigationStep,
         complete: completeNavigation,
-        addObject: (name: string, x: number, y: number, description?: string) => {
-          client.updateSceneObject({ name, position: [x, y], description });
-        },
+        abort: () => navigation.abort(),
+        getNavigation: () => navigation.getState(),
+        say: (text: string) => voiceCommands.handleTranscript(text),
+        addObject: (category: string, x: number, y: number, description?: string, label?: string) =>
+          client.updateSceneObject({ category, label, position: [x, y], description }),
+        mergeObjects: (keepId: string, mergeId: string) => client.mergeSceneObjects(keepId, mergeId),
+        splitObject: (id: string, positions: Position[]) => client.splitSceneObject(id, positions),
+        removeObject: (id: string) => client.removeSceneObject(id),
+        undoLastMove: () => client.undoLastMove(),
+        rewindTo: (timestamp: number) => client.rewindTo(timestamp),
         resetScene: () => client.resetScene(),
-        getScene: () => client.sceneMemory
+        getScene: () => client.sceneMemory,
+        saveScene: (name?: string) => client.saveScene(name),
+        loadScene: (name: string) => client.loadScene(name),
+        listScenes: () => client.listScenes(),
+        deleteScene: (name: string) => client.deleteScene(name),
+        exportScene: () => client.exportScene(),
+        importScene: (file: string) => client.importScene(file),
+        frameScheduler,
+        setCaptureProfile: (name: CaptureProfileName) => useCaptureStore.getState().setProfile(name),
+        cue: (id: string) => spatialCues.cueObject(id),
+        haptics,
+        setSpatialAudio: (mode: SpatialAudioMode) => useSpatialAudioStore.getState().setMode(mode),
+        setMicMode: (mode: MicMode) => useMicStore.getState().setMode(mode)
       };
       console.log("[NAV] Navigation controls available at window.lumaNav");
       console.log("[NAV] Example usage:");
@@ -304,24 +626,125 @@ function ControlTray({
       console.log("  window.lumaNav.start('get to the other side of the room')");
       console.log("  window.lumaNav.updateStep([2, 0], 'moved 2 steps right')");
       console.log("  window.lumaNav.complete()");
+      console.log("  window.lumaNav.retrace()");
+      console.log("  window.lumaNav.say('guide me to the door')");
+      console.log("  window.lumaNav.saveScene('kitchen')");
+      console.log("  window.lumaNav.cue('box-1')");
     }
-  }, [connected, client]);
+  }, [connected, client, navigation, voiceCommands, frameScheduler, spatialCues, haptics]);
+
+  // Session recording for bug reports, replay works without a connection
+  useEffect(() => {
+    (window as any).lumaSession = {
+      startRecording: () => client.startRecording(),
+      stopRecording: async (download = true) => {
+        const recording = client.stopRecording();
+        if (recording && download) {
+          const blob = await recordingToBlob(recording);
+          const a = document.createElement("a");
+          a.href = URL.createObjectURL(blob);
+          a.download = `lumex-session-${recording.startedAt.replace(/[:.]/g, "-")}${
+            blob.type === "application/json" ? ".json" : ".json.gz"
+          }`;
+          a.click();
+          URL.revokeObjectURL(a.href);
+        }
+        return recording;
+      },
+      replay: async (file: Blob | string | object, speed?: number) =>
+        client.replay(await readRecording(file), speed),
+      stopReplay: () => client.stopReplay(),
+    };
+  }, [client]);
 
   return (
     <section className="control-tray">
       <canvas style={{ display: "none" }} ref={renderCanvasRef} />
+      <canvas style={{ display: "none" }} ref={sampleCanvasRef} />
       <nav className={cn("actions-nav", { disabled: !connected })}>
+        {micMode === "push-to-talk" ? (
+          <button
+            className={cn("action-button mic-button push-to-talk", {
+              held: talkHeld,
+            })}
+            aria-label="Hold to talk"
+            aria-pressed={talkHeld}
+            title="Hold to talk, or hold space"
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              setTalkHeld(true);
+            }}
+            onPointerUp={() => setTalkHeld(false)}
+            onPointerCancel={() => setTalkHeld(false)}
+            onContextMenu={(e) => e.preventDefault()}
+          >
+            <span className="material-symbols-outlined filled">
+              {talkHeld ? "mic" : "mic_off"}
+            </span>
+          </button>
+        ) : (
+          <button
+            className="action-button mic-button"
+            aria-label={micMode === "muted" ? "Unmute microphone" : "Mute microphone"}
+            aria-pressed={micMode === "muted"}
+            onClick={() => setMicMode(micMode === "muted" ? "always-on" : "muted")}
+          >
+            <span className="material-symbols-outlined filled">
+              {micMode === "muted" ? "mic_off" : "mic"}
+            </span>
+          </button>
+        )}
+        <button
+          className="action-button material-symbols-outlined"
+          aria-label={`Microphone mode: ${micModes[micMode].label}`}
+          title={`Microphone mode: ${micModes[micMode].label}`}
+          onClick={() =>
+            setMicMode(
+              MIC_MODES[(MIC_MODES.indexOf(micMode) + 1) % MIC_MODES.length]
+            )
+          }
+        >
+          settings_voice
+        </button>
         <div className="action-button no-action outlined">
           <AudioPulse volume={volume} active={connected} hover={false} />
         </div>
+        {cameras.length > 1 && (
+          <button
+            className="action-button material-symbols-outlined"
+            aria-label="Switch camera"
+            title={camera ? `Camera: ${camera.label}` : "Switch camera"}
+            onClick={() =>
+              setPreferredCameraId(
+                nextCamera(cameras, camera?.deviceId ?? null)?.deviceId ?? null
+              )
+            }
+          >
+            switch_camera
+          </button>
+        )}
         {children}
       </nav>
 
+      <div className="announcement" role="status" aria-live="polite">
+        {announcement}
+      </div>
       <div className={cn("connection-container", { connected })}>
         <span className="text-indicator">
-          {connected ? "Connected - Visual Assistance Active" : "Connecting..."}
+          {connected
+            ? speaking
+              ? "Connected - Listening"
+              : micMode === "muted"
+              ? "Connected - Microphone muted"
+              : micMode === "push-to-talk" && !talkHeld
+              ? "Connected - Hold to talk"
+              : "Connected - Visual Assistance Active"
+            : reconnecting
+            ? "Connection lost - Reconnecting..."
+            : "Connecting..."}
         </span>
       </div>
+      {enableEditingSettings ? <SettingsDialog /> : ""}
     </section>
   );
 }
@@ -0,0 +1,51 @@
+import Select from "react-select";
+import { useCameraDevices } from "../../hooks/use-camera-devices";
+import { pickCamera, useCameraStore } from "../../lib/camera-selection";
+
+// switches the camera live, the session stays connected
+export default function CameraSelector() {
+  const { devices } = useCameraDevices();
+  const { deviceId, setDeviceId } = useCameraStore();
+  const options = devices.map((device) => ({
+    value: device.deviceId,
+    label: device.label,
+  }));
+  const active = pickCamera(devices, deviceId);
+
+  return (
+    <div className="select-group">
+      <label htmlFor="camera-selector">Camera device</label>
+      <Select
+        id="camera-selector"
+        className="react-select"
+        classNamePrefix="react-select"
+        styles={{
+          control: (baseStyles) => ({
+            ...baseStyles,
+            background: "var(--Neutral-15)",
+            color: "var(--Neutral-90)",
+            minHeight: "33px",
+            maxHeight: "33px",
+            border: 0,
+          }),
+          option: (styles, { isFocused, isSelected }) => ({
+            ...styles,
+            backgroundColor: isFocused
+              ? "var(--Neutral-30)"
+              : isSelected
+              ? "var(--Neutral-20)"
+              : undefined,
+          }),
+        }}
+        value={options.find((option) => option.value === active?.deviceId) || null}
+        options={options}
+        noOptionsMessage={() => "No cameras found"}
+        onChange={(e) => {
+          if (e) {
+            setDeviceId(e.value);
+          }
+        }}
+      />
+    </div>
+  );
+}
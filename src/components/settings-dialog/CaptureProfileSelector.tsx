@@ -0,0 +1,52 @@
+import Select from "react-select";
+import {
+  CAPTURE_PROFILE_NAMES,
+  captureProfiles,
+  useCaptureStore,
+} from "../../lib/capture-profiles";
+
+const profileOptions = CAPTURE_PROFILE_NAMES.map((name) => ({
+  value: name,
+  label: captureProfiles[name].label,
+}));
+
+// unlike the other settings this applies while connected
+export default function CaptureProfileSelector() {
+  const { profile, setProfile } = useCaptureStore();
+
+  return (
+    <div className="select-group">
+      <label htmlFor="capture-profile-selector">Camera</label>
+      <Select
+        id="capture-profile-selector"
+        className="react-select"
+        classNamePrefix="react-select"
+        styles={{
+          control: (baseStyles) => ({
+            ...baseStyles,
+            background: "var(--Neutral-15)",
+            color: "var(--Neutral-90)",
+            minHeight: "33px",
+            maxHeight: "33px",
+            border: 0,
+          }),
+          option: (styles, { isFocused, isSelected }) => ({
+            ...styles,
+            backgroundColor: isFocused
+              ? "var(--Neutral-30)"
+              : isSelected
+              ? "var(--Neutral-20)"
+              : undefined,
+          }),
+        }}
+        value={profileOptions.find((option) => option.value === profile)}
+        options={profileOptions}
+        onChange={(e) => {
+          if (e) {
+            setProfile(e.value);
+          }
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import Select from "react-select";
+import { MIC_MODES, micModes, useMicStore } from "../../lib/mic-mode";
+
+const modeOptions = MIC_MODES.map((mode) => ({
+  value: mode,
+  label: micModes[mode].label,
+}));
+
+// applies while connected, the mic button also switches muted and always on
+export default function MicModeSelector() {
+  const { mode, setMode } = useMicStore();
+
+  return (
+    <div className="select-group">
+      <label htmlFor="mic-mode-selector">Mic mode</label>
+      <Select
+        id="mic-mode-selector"
+        className="react-select"
+        classNamePrefix="react-select"
+        styles={{
+          control: (baseStyles) => ({
+            ...baseStyles,
+            background: "var(--Neutral-15)",
+            color: "var(--Neutral-90)",
+            minHeight: "33px",
+            maxHeight: "33px",
+            border: 0,
+          }),
+          option: (styles, { isFocused, isSelected }) => ({
+            ...styles,
+            backgroundColor: isFocused
+              ? "var(--Neutral-30)"
+              : isSelected
+              ? "var(--Neutral-20)"
+              : undefined,
+          }),
+        }}
+        value={modeOptions.find((option) => option.value === mode)}
+        options={modeOptions}
+        onChange={(e) => {
+          if (e) {
+            setMode(e.value);
+          }
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import Select from "react-select";
+import { useMicrophoneDevices } from "../../hooks/use-microphone-devices";
+import {
+  MicrophoneProcessing,
+  pickMicrophone,
+  useMicrophoneStore,
+} from "../../lib/microphone-selection";
+
+const processingOptions: { key: keyof MicrophoneProcessing; label: string }[] = [
+  { key: "echoCancellation", label: "Echo cancellation" },
+  { key: "noiseSuppression", label: "Noise suppression" },
+  { key: "autoGainControl", label: "Auto gain" },
+];
+
+// switches the microphone live, the session stays connected
+export default function MicrophoneSelector() {
+  const { devices } = useMicrophoneDevices();
+  const { deviceId, processing, setDeviceId, setProcessing } = useMicrophoneStore();
+  const options = devices.map((device) => ({
+    value: device.deviceId,
+    label: device.label,
+  }));
+  const active = pickMicrophone(devices, deviceId);
+
+  return (
+    <div className="select-group">
+      <label htmlFor="microphone-selector">Microphone</label>
+      <Select
+        id="microphone-selector"
+        className="react-select"
+        classNamePrefix="react-select"
+        styles={{
+          control: (baseStyles) => ({
+            ...baseStyles,
+            background: "var(--Neutral-15)",
+            color: "var(--Neutral-90)",
+            minHeight: "33px",
+            maxHeight: "33px",
+            border: 0,
+          }),
+          option: (styles, { isFocused, isSelected }) => ({
+            ...styles,
+            backgroundColor: isFocused
+              ? "var(--Neutral-30)"
+              : isSelected
+              ? "var(--Neutral-20)"
+              : undefined,
+          }),
+        }}
+        value={options.find((option) => option.value === active?.deviceId) || null}
+        options={options}
+        noOptionsMessage={() => "No microphones found"}
+        onChange={(e) => {
+          if (e) {
+            setDeviceId(e.value);
+          }
+        }}
+      />
+      <div className="microphone-processing">
+        {processingOptions.map(({ key, label }) => (
+          <label key={key}>
+            <input
+              type="checkbox"
+              checked={processing[key]}
+              onChange={(e) => setProcessing({ [key]: e.target.checked })}
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import {
   ChangeEvent,
   FormEventHandler,
   useCallback,
+  useEffect,
   useMemo,
   useState,
 } from "react";
@@ -9,6 +10,12 @@ import "./settings-dialog.scss";
 import { useLiveAPIContext } from "../../contexts/LiveAPIContext";
 import VoiceSelector from "./VoiceSelector";
 import ResponseModalitySelector from "./ResponseModalitySelector";
+import CaptureProfileSelector from "./CaptureProfileSelector";
+import CameraSelector from "./CameraSelector";
+import SpatialAudioSelector from "./SpatialAudioSelector";
+import VoiceActivitySelector from "./VoiceActivitySelector";
+import MicModeSelector from "./MicModeSelector";
+import MicrophoneSelector from "./MicrophoneSelector";
 import { FunctionDeclaration, LiveConnectConfig, Tool } from "@google/genai";
 
 type FunctionDeclarationsTool = Tool & {
@@ -17,19 +24,32 @@ type FunctionDeclarationsTool = Tool & {
 
 export default function SettingsDialog() {
   const [open, setOpen] = useState(false);
-  const { config, setConfig, connected } = useLiveAPIContext();
+  const { config, setConfig, connected, tools } = useLiveAPIContext();
+
+  // declarations from the tool registry are listed after those in the config
+  const [registered, setRegistered] = useState(() => tools.declarations());
+  useEffect(() => {
+    const onChange = () => setRegistered(tools.declarations());
+    onChange();
+    tools.on("change", onChange);
+    return () => {
+      tools.off("change", onChange);
+    };
+  }, [tools]);
+
   const functionDeclarations: FunctionDeclaration[] = useMemo(() => {
     if (!Array.isArray(config.tools)) {
-      return [];
+      return registered;
     }
     return (config.tools as Tool[])
       .filter((t: Tool): t is FunctionDeclarationsTool =>
-        Array.isArray((t as any).functionDeclarations)
+        "functionDeclarations" in t && Array.isArray(t.functionDeclarations)
       )
       .map((t) => t.functionDeclarations)
       .filter((fc) => !!fc)
-      .flat();
-  }, [config]);
+      .flat()
+      .concat(registered);
+  }, [config, registered]);
 
   // system instructions can come in many types
   const systemInstruction = useMemo(() => {
@@ -68,6 +88,10 @@ export default function SettingsDialog() {
 
   const updateFunctionDescription = useCallback(
     (editedFdName: string, newDescription: string) => {
+      if (tools.has(editedFdName)) {
+        tools.describe(editedFdName, newDescription);
+        return;
+      }
       const newConfig: LiveConnectConfig = {
         ...config,
         tools:
@@ -88,62 +112,75 @@ export default function SettingsDialog() {
       };
       setConfig(newConfig);
     },
-    [config, setConfig]
+    [config, setConfig, tools]
   );
 
   return (
     <div className="settings-dialog">
       <button
         className="action-button material-symbols-outlined"
+        aria-label="Settings"
+        aria-expanded={open}
         onClick={() => setOpen(!open)}
       >
         settings
       </button>
       <dialog className="dialog" style={{ display: open ? "block" : "none" }}>
-        <div className={`dialog-container ${connected ? "disabled" : ""}`}>
-          {connected && (
-            <div className="connected-indicator">
-              <p>
-                These settings can only be applied before connecting and will
-                override other settings.
-              </p>
-            </div>
-          )}
+        <div className="dialog-container">
+          {/* devices and feedback, these apply while connected */}
           <div className="mode-selectors">
-            <ResponseModalitySelector />
-            <VoiceSelector />
+            <CaptureProfileSelector />
+            <CameraSelector />
+            <SpatialAudioSelector />
+            <MicModeSelector />
+            <MicrophoneSelector />
+            <VoiceActivitySelector />
           </div>
+          <div className={connected ? "disabled" : ""}>
+            {connected && (
+              <div className="connected-indicator">
+                <p>
+                  These settings can only be applied before connecting and will
+                  override other settings.
+                </p>
+              </div>
+            )}
+            <div className="mode-selectors">
+              <ResponseModalitySelector />
+              <VoiceSelector />
+            </div>
 
-          <h3>System Instructions</h3>
-          <textarea
-            className="system"
-            onChange={updateConfig}
-            value={systemInstruction}
-          />
-          <h4>Function declarations</h4>
-          <div className="function-declarations">
-            <div className="fd-rows">
-              {functionDeclarations.map((fd, fdKey) => (
-                <div className="fd-row" key={`function-${fdKey}`}>
-                  <span className="fd-row-name">{fd.name}</span>
-                  <span className="fd-row-args">
-                    {Object.keys(fd.parameters?.properties || {}).map(
-                      (item, k) => (
-                        <span key={k}>{item}</span>
-                      )
-                    )}
-                  </span>
-                  <input
-                    key={`fd-${fd.description}`}
-                    className="fd-row-description"
-                    type="text"
-                    defaultValue={fd.description}
-                    onBlur={(e) =>
-                      updateFunctionDescription(fd.name!, e.target.value)
-                    }
-                  />
-                </div>
-              ))}
+            <h3>System Instructions</h3>
+            <textarea
+              className="system"
+              onChange={updateConfig}
+              value={systemInstruction}
+            />
+            <h4>Function declarations</h4>
+            <div className="function-declarations">
+              <div className="fd-rows">
+                {functionDeclarations.map((fd, fdKey) => (
+                  <div className="fd-row" key={`function-${fdKey}`}>
+                    <span className="fd-row-name">{fd.name}</span>
+                    <span className="fd-row-args">
+                      {Object.keys(fd.parameters?.properties || {}).map(
+                        (item, k) => (
+                          <span key={k}>{item}</span>
+                        )
+                      )}
+                    </span>
+                    <input
+                      key={`fd-${fd.description}`}
+                      className="fd-row-description"
+                      type="text"
+                      defaultValue={fd.description}
+                      onBlur={(e) =>
+                        updateFunctionDescription(fd.name!, e.target.value)
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
             </div>
           </div>
         </div>
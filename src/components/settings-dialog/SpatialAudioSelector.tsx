@@ -0,0 +1,49 @@
+import Select from "react-select";
+import { SpatialAudioMode, useSpatialAudioStore } from "../../lib/spatial-audio";
+
+const modeOptions: { value: SpatialAudioMode; label: string }[] = [
+  { value: "off", label: "Off" },
+  { value: "earcons", label: "Sounds" },
+  { value: "voice", label: "Sounds and voice" },
+];
+
+// applies while connected, like the capture profile
+export default function SpatialAudioSelector() {
+  const { mode, setMode } = useSpatialAudioStore();
+
+  return (
+    <div className="select-group">
+      <label htmlFor="spatial-audio-selector">Spatial audio</label>
+      <Select
+        id="spatial-audio-selector"
+        className="react-select"
+        classNamePrefix="react-select"
+        styles={{
+          control: (baseStyles) => ({
+            ...baseStyles,
+            background: "var(--Neutral-15)",
+            color: "var(--Neutral-90)",
+            minHeight: "33px",
+            maxHeight: "33px",
+            border: 0,
+          }),
+          option: (styles, { isFocused, isSelected }) => ({
+            ...styles,
+            backgroundColor: isFocused
+              ? "var(--Neutral-30)"
+              : isSelected
+              ? "var(--Neutral-20)"
+              : undefined,
+          }),
+        }}
+        value={modeOptions.find((option) => option.value === mode)}
+        options={modeOptions}
+        onChange={(e) => {
+          if (e) {
+            setMode(e.value);
+          }
+        }}
+      />
+    </div>
+  );
+}
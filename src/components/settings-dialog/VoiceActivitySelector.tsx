@@ -0,0 +1,48 @@
+import Select from "react-select";
+import { AudioSendMode, useVoiceActivityStore } from "../../lib/voice-activity";
+
+const modeOptions: { value: AudioSendMode; label: string }[] = [
+  { value: "continuous", label: "Send all audio" },
+  { value: "skip-silence", label: "Skip silence" },
+  { value: "activity-signals", label: "Detect turns locally" },
+];
+
+export default function VoiceActivitySelector() {
+  const { sendMode, setSendMode } = useVoiceActivityStore();
+
+  return (
+    <div className="select-group">
+      <label htmlFor="voice-activity-selector">Voice detection</label>
+      <Select
+        id="voice-activity-selector"
+        className="react-select"
+        classNamePrefix="react-select"
+        styles={{
+          control: (baseStyles) => ({
+            ...baseStyles,
+            background: "var(--Neutral-15)",
+            color: "var(--Neutral-90)",
+            minHeight: "33px",
+            maxHeight: "33px",
+            border: 0,
+          }),
+          option: (styles, { isFocused, isSelected }) => ({
+            ...styles,
+            backgroundColor: isFocused
+              ? "var(--Neutral-30)"
+              : isSelected
+              ? "var(--Neutral-20)"
+              : undefined,
+          }),
+        }}
+        value={modeOptions.find((option) => option.value === sendMode)}
+        options={modeOptions}
+        onChange={(e) => {
+          if (e) {
+            setSendMode(e.value);
+          }
+        }}
+      />
+    </div>
+  );
+}
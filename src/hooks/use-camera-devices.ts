@@ -14,55 +14,10 @@
  * limitations under the License.
  */
 
-import { useState, useEffect } from "react";
+import { MediaInputDevice, useMediaDevices } from "./use-media-devices";
 
-export interface CameraDevice {
-  deviceId: string;
-  label: string;
-  groupId: string;
-}
+export type CameraDevice = MediaInputDevice;
 
 export function useCameraDevices() {
-  const [devices, setDevices] = useState<CameraDevice[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const enumerateDevices = async () => {
-      try {
-        setLoading(true);
-        
-        // Request permission first to get full device labels
-        await navigator.mediaDevices.getUserMedia({ video: true });
-        
-        const mediaDevices = await navigator.mediaDevices.enumerateDevices();
-        const videoDevices = mediaDevices
-          .filter(device => device.kind === 'videoinput')
-          .map(device => ({
-            deviceId: device.deviceId,
-            label: device.label || `Camera ${device.deviceId.substring(0, 8)}`,
-            groupId: device.groupId,
-          }));
-        
-        setDevices(videoDevices);
-        setLoading(false);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to enumerate devices');
-        setLoading(false);
-      }
-    };
-
-    enumerateDevices();
-
-    // Listen for device changes
-    const handleDeviceChange = () => enumerateDevices();
-    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
-
-    return () => {
-      navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
-    };
-  }, []);
-
-  return { devices, loading, error };
+  return useMediaDevices("videoinput");
 }
-
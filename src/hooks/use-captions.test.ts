@@ -0,0 +1,108 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { renderHook } from "@testing-library/react";
+import { act } from "react";
+import { GenAILiveClient } from "../lib/genai-live-client";
+import { useCaptions } from "./use-captions";
+
+function setup(maxTurns?: number) {
+  const client = new GenAILiveClient({ apiKey: "test" });
+  const { result, unmount } = renderHook(() => useCaptions(client, maxTurns));
+  const emit: GenAILiveClient["emit"] = (...args) => {
+    let emitted = false;
+    act(() => {
+      emitted = client.emit(...args);
+    });
+    return emitted;
+  };
+  const texts = () =>
+    result.current.turns.map(({ speaker, text, done }) => [speaker, text, done]);
+  return { client, result, unmount, emit, texts };
+}
+
+test("transcription chunks accumulate into one turn per speaker", () => {
+  const { result, emit, texts } = setup();
+
+  emit("inputtranscription", "where is", false);
+  emit("inputtranscription", "where is the door?", true);
+  emit("outputtranscription", "The door is", false);
+  emit("outputtranscription", "The door is ahead.", true);
+  // transcription restarts after a finished utterance
+  emit("outputtranscription", "Walk 3 steps.", false);
+
+  expect(texts()).toEqual([
+    ["user", "where is the door?", true],
+    ["model", "The door is ahead. Walk 3 steps.", false],
+  ]);
+  expect(result.current.announcement).toBe("");
+});
+
+test("text responses accumulate from content parts", () => {
+  const { emit, texts } = setup();
+
+  emit("content", { modelTurn: { parts: [{ text: "Turn " }, { text: "left" }] } });
+  emit("content", { modelTurn: { parts: [{ text: " now." }] } });
+
+  expect(texts()).toEqual([["model", "Turn left now.", false]]);
+});
+
+test("turn complete and interruptions close the model turn", () => {
+  const { result, emit, texts } = setup();
+
+  emit("outputtranscription", "You are by the door.", false);
+  emit("turncomplete");
+  expect(result.current.announcement).toBe("You are by the door.");
+
+  // the next reply starts a new turn
+  emit("outputtranscription", "Turn", false);
+  emit("interrupted");
+  expect(texts()).toEqual([
+    ["model", "You are by the door.", true],
+    ["model", "Turn", true],
+  ]);
+  expect(result.current.turns[1].interrupted).toBe(true);
+  expect(result.current.announcement).toBe("Turn (interrupted)");
+
+  // nothing was said, so nothing changes
+  emit("turncomplete");
+  expect(result.current.announcement).toBe("Turn (interrupted)");
+});
+
+test("only the latest turns are kept", () => {
+  const { result, emit } = setup(3);
+
+  ["one", "two", "three", "four"].forEach((text) => {
+    emit("inputtranscription", text, true);
+    emit("outputtranscription", text, false);
+    emit("turncomplete");
+  });
+
+  expect(result.current.turns.map((turn) => turn.text)).toEqual([
+    "three",
+    "four",
+    "four",
+  ]);
+  const ids = result.current.turns.map((turn) => turn.id);
+  expect(new Set(ids).size).toBe(3);
+});
+
+test("stops listening when unmounted", () => {
+  const { client, unmount } = setup();
+  unmount();
+  expect(client.listenerCount("outputtranscription")).toBe(0);
+  expect(client.listenerCount("turncomplete")).toBe(0);
+});
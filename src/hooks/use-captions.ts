@@ -0,0 +1,141 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LiveServerContent } from "@google/genai";
+import { useEffect, useRef, useState } from "react";
+import { GenAILiveClient } from "../lib/genai-live-client";
+
+export type CaptionSpeaker = "user" | "model";
+
+export type CaptionTurn = {
+  id: number;
+  speaker: CaptionSpeaker;
+  text: string;
+  done: boolean; // the turn ended, its text will not change
+  interrupted?: boolean;
+};
+
+export type UseCaptionsResult = {
+  turns: CaptionTurn[];
+  // the last finished model turn, for the screen reader live region
+  announcement: string;
+};
+
+// index of the speaker's latest turn while it is still open, otherwise -1
+function openTurnIndex(turns: CaptionTurn[], speaker: CaptionSpeaker) {
+  for (let i = turns.length - 1; i >= 0; i--) {
+    if (turns[i].speaker === speaker) {
+      return turns[i].done ? -1 : i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Builds a rolling transcript of user and model turns from the client's
+ * transcription and text events. A model turn ends on turncomplete or
+ * interrupted, a user turn when its transcription is finished.
+ *
+ * @param maxTurns - How many turns to keep, older turns scroll away
+ */
+export function useCaptions(
+  client: GenAILiveClient,
+  maxTurns = 50
+): UseCaptionsResult {
+  const [turns, setTurns] = useState<CaptionTurn[]>([]);
+  const [announcement, setAnnouncement] = useState("");
+  const nextId = useRef(0);
+
+  useEffect(() => {
+    // text of the open model turn, and the part of it already finished,
+    // transcription restarts from "" after every finished utterance
+    let modelText = "";
+    let modelCommitted = "";
+
+    const update = (speaker: CaptionSpeaker, text: string, done = false) => {
+      setTurns((prev) => {
+        const open = openTurnIndex(prev, speaker);
+        if (open >= 0) {
+          return prev.map((turn, i) =>
+            i === open ? { ...turn, text, done } : turn
+          );
+        }
+        const turn = { id: nextId.current++, speaker, text, done };
+        return [...prev, turn].slice(-maxTurns);
+      });
+    };
+
+    const onInput = (text: string, finished: boolean) => {
+      update("user", text, finished);
+    };
+
+    const onOutput = (text: string, finished: boolean) => {
+      modelText = modelCommitted ? `${modelCommitted} ${text}` : text;
+      if (finished) {
+        modelCommitted = modelText;
+      }
+      update("model", modelText);
+    };
+
+    // with text responses the model turn arrives as text parts
+    const onContent = (content: LiveServerContent) => {
+      const text = content.modelTurn?.parts
+        ?.map((part) => part.text || "")
+        .join("");
+      if (text) {
+        modelCommitted += text;
+        modelText = modelCommitted;
+        update("model", modelText);
+      }
+    };
+
+    const endModelTurn = (interrupted: boolean) => {
+      if (!modelText) {
+        return;
+      }
+      setAnnouncement(interrupted ? `${modelText} (interrupted)` : modelText);
+      setTurns((prev) =>
+        prev.map((turn) =>
+          turn.speaker === "model" && !turn.done
+            ? { ...turn, done: true, interrupted }
+            : turn
+        )
+      );
+      modelText = "";
+      modelCommitted = "";
+    };
+    const onTurnComplete = () => endModelTurn(false);
+    const onInterrupted = () => endModelTurn(true);
+
+    client
+      .on("inputtranscription", onInput)
+      .on("outputtranscription", onOutput)
+      .on("content", onContent)
+      .on("turncomplete", onTurnComplete)
+      .on("interrupted", onInterrupted);
+
+    return () => {
+      client
+        .off("inputtranscription", onInput)
+        .off("outputtranscription", onOutput)
+        .off("content", onContent)
+        .off("turncomplete", onTurnComplete)
+        .off("interrupted", onInterrupted);
+    };
+  }, [client, maxTurns]);
+
+  return { turns, announcement };
+}
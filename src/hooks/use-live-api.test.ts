@@ -0,0 +1,63 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { renderHook } from "@testing-library/react";
+import { act } from "react";
+import { MockLiveServer } from "../lib/mock-live/mock-live-server";
+import { readScenario } from "../lib/mock-live/scenario";
+import { LiveClientOptions } from "../types";
+import { useLiveAPI } from "./use-live-api";
+
+let server: MockLiveServer;
+
+afterEach(async () => {
+  await server.stop();
+});
+
+test("connect sends the config set after it was captured", async () => {
+  server = new MockLiveServer(readScenario({ name: "setup only", exchanges: [] }));
+  const options: LiveClientOptions = {
+    apiKey: "test",
+    mockServerUrl: await server.start(),
+    reconnect: false,
+  };
+  // jsdom cannot play audio, output waits for a user gesture instead
+  jest
+    .spyOn(window.HTMLMediaElement.prototype, "play")
+    .mockRejectedValue(new Error("not allowed"));
+  const { result, unmount } = renderHook(() => useLiveAPI(options));
+
+  // like an effect that runs once on mount, before the app sets its config
+  const { connect, client } = result.current;
+  act(() => {
+    result.current.setConfig({
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
+    });
+  });
+  const setupComplete = new Promise<void>((resolve) =>
+    client.once("setupcomplete", resolve)
+  );
+  await act(() => connect());
+  await setupComplete;
+
+  const setup = server.received.find((r) => r.kind === "setup")!.message.setup;
+  expect(setup).toMatchObject({
+    inputAudioTranscription: {},
+    outputAudioTranscription: {},
+  });
+  unmount();
+});
@@ -16,6 +16,9 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { GenAILiveClient } from "../lib/genai-live-client";
+import { ToolRegistry } from "../lib/tool-registry";
+import { SpatialCues } from "../lib/spatial-audio";
+import { useVoiceActivityStore, withActivityDetection } from "../lib/voice-activity";
 import { LiveClientOptions } from "../types";
 import { AudioStreamer } from "../lib/audio-streamer";
 import { audioContext } from "../lib/utils";
@@ -24,11 +27,16 @@ import { LiveConnectConfig } from "@google/genai";
 
 export type UseLiveAPIResults = {
   client: GenAILiveClient;
+  // function calling, registered tools are declared in the config on connect
+  tools: ToolRegistry;
+  // earcons from the direction of remembered objects
+  spatialCues: SpatialCues;
   setConfig: (config: LiveConnectConfig) => void;
   config: LiveConnectConfig;
   model: string;
   setModel: (model: string) => void;
   connected: boolean;
+  reconnecting: boolean;
   connect: () => Promise<void>;
   disconnect: () => Promise<void>;
   volume: number;
@@ -36,18 +44,29 @@ export type UseLiveAPIResults = {
 
 export function useLiveAPI(options: LiveClientOptions): UseLiveAPIResults {
   const client = useMemo(() => new GenAILiveClient(options), [options]);
+  const tools = useMemo(() => new ToolRegistry(client), [client]);
+  const spatialCues = useMemo(() => new SpatialCues(client), [client]);
   const audioStreamerRef = useRef<AudioStreamer | null>(null);
 
   const [model, setModel] = useState<string>("models/gemini-2.0-flash-exp");
   const [config, setConfig] = useState<LiveConnectConfig>({});
   const [connected, setConnected] = useState(false);
+  const [reconnecting, setReconnecting] = useState(false);
   const [volume, setVolume] = useState(0);
 
+  // connect reads the latest config and model, it may have been captured
+  // before they were set, e.g. by an effect that runs once on mount
+  const configRef = useRef(config);
+  configRef.current = config;
+  const modelRef = useRef(model);
+  modelRef.current = model;
+
   // register audio for streaming server -> speakers
   useEffect(() => {
     if (!audioStreamerRef.current) {
       audioContext({ id: "audio-out" }).then((audioCtx: AudioContext) => {
         audioStreamerRef.current = new AudioStreamer(audioCtx);
+        spatialCues.use(audioStreamerRef.current);
         audioStreamerRef.current
           .addWorklet<any>("vumeter-out", VolMeterWorket, (ev: any) => {
             setVolume(ev.data.volume);
@@ -56,14 +75,41 @@ export function useLiveAPI(options: LiveClientOptions): UseLiveAPIResults {
             // Successfully added worklet
           });
       });
+    } else {
+      spatialCues.use(audioStreamerRef.current);
     }
-  }, [audioStreamerRef]);
+  }, [audioStreamerRef, spatialCues]);
+
+  useEffect(() => {
+    tools.attach();
+    return () => tools.detach();
+  }, [tools]);
+
+  useEffect(() => {
+    spatialCues.attach();
+    return () => spatialCues.detach();
+  }, [spatialCues]);
+
+  // bring back the map of the last room after a reload
+  useEffect(() => {
+    client.restoreLastScene().catch((e) => {
+      console.error("could not restore scene memory", e);
+    });
+  }, [client]);
 
   useEffect(() => {
     const onOpen = () => {
       setConnected(true);
     };
 
+    const onReconnecting = () => {
+      setReconnecting(true);
+    };
+
+    const onReconnectDone = () => {
+      setReconnecting(false);
+    };
+
     const onClose = () => {
       setConnected(false);
     };
@@ -81,6 +127,9 @@ export function useLiveAPI(options: LiveClientOptions): UseLiveAPIResults {
       .on("error", onError)
       .on("open", onOpen)
       .on("close", onClose)
+      .on("reconnecting", onReconnecting)
+      .on("reconnected", onReconnectDone)
+      .on("reconnectfailed", onReconnectDone)
       .on("interrupted", stopAudioStreamer)
       .on("audio", onAudio);
 
@@ -89,6 +138,9 @@ export function useLiveAPI(options: LiveClientOptions): UseLiveAPIResults {
         .off("error", onError)
         .off("open", onOpen)
         .off("close", onClose)
+        .off("reconnecting", onReconnecting)
+        .off("reconnected", onReconnectDone)
+        .off("reconnectfailed", onReconnectDone)
         .off("interrupted", stopAudioStreamer)
         .off("audio", onAudio)
         .disconnect();
@@ -96,25 +148,34 @@ export function useLiveAPI(options: LiveClientOptions): UseLiveAPIResults {
   }, [client]);
 
   const connect = useCallback(async () => {
+    const config = configRef.current;
     if (!config) {
       throw new Error("config has not been set");
     }
     client.disconnect();
-    await client.connect(model, config);
-  }, [client, config, model]);
+    const { sendMode } = useVoiceActivityStore.getState();
+    await client.connect(
+      modelRef.current,
+      withActivityDetection(tools.withDeclarations(config), sendMode)
+    );
+  }, [client, tools]);
 
   const disconnect = useCallback(async () => {
     client.disconnect();
     setConnected(false);
+    setReconnecting(false);
   }, [setConnected, client]);
 
   return {
     client,
+    tools,
+    spatialCues,
     config,
     setConfig,
     model,
     setModel,
     connected,
+    reconnecting,
     connect,
     disconnect,
     volume,
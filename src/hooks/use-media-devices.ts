@@ -0,0 +1,85 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useState, useEffect } from "react";
+
+export interface MediaInputDevice {
+  deviceId: string;
+  label: string;
+  groupId: string;
+}
+
+export type MediaInputKind = "audioinput" | "videoinput";
+
+// shown for devices the browser has not labelled
+const FALLBACK_LABELS: Record<MediaInputKind, string> = {
+  audioinput: "Microphone",
+  videoinput: "Camera",
+};
+
+/**
+ * The microphones or cameras of this machine, kept up to date as devices
+ * are plugged in and out
+ */
+export function useMediaDevices(kind: MediaInputKind) {
+  const [devices, setDevices] = useState<MediaInputDevice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const enumerateDevices = async () => {
+      try {
+        setLoading(true);
+        
+        let mediaDevices = await navigator.mediaDevices.enumerateDevices();
+        // Labels are empty until permission is granted, only then ask for it,
+        // so plugging in a device does not open it again
+        if (mediaDevices.some(device => device.kind === kind && !device.label)) {
+          const permission = await navigator.mediaDevices.getUserMedia(
+            kind === 'audioinput' ? { audio: true } : { video: true }
+          );
+          permission.getTracks().forEach((track) => track.stop());
+          mediaDevices = await navigator.mediaDevices.enumerateDevices();
+        }
+        const inputDevices = mediaDevices
+          .filter(device => device.kind === kind)
+          .map(device => ({
+            deviceId: device.deviceId,
+            label: device.label || `${FALLBACK_LABELS[kind]} ${device.deviceId.substring(0, 8)}`,
+            groupId: device.groupId,
+          }));
+        
+        setDevices(inputDevices);
+        setLoading(false);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to enumerate devices');
+        setLoading(false);
+      }
+    };
+
+    enumerateDevices();
+
+    // Listen for device changes
+    const handleDeviceChange = () => enumerateDevices();
+    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+
+    return () => {
+      navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+    };
+  }, [kind]);
+
+  return { devices, loading, error };
+}
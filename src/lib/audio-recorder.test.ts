@@ -0,0 +1,127 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AudioRecorder } from "./audio-recorder";
+import * as utils from "./utils";
+
+// just enough Web Audio and media devices for the recorder to wire itself up
+
+function fakeStream() {
+  const track = { stop: jest.fn(), onended: null };
+  return {
+    track,
+    getTracks: () => [track],
+    getAudioTracks: () => [track],
+  } as unknown as MediaStream & { track: { stop: jest.Mock } };
+}
+
+const fakeNode = () => ({ connect: jest.fn(), disconnect: jest.fn() });
+
+class FakeWorkletNode {
+  port = { onmessage: null };
+}
+
+let getUserMedia: jest.Mock;
+
+beforeEach(() => {
+  getUserMedia = jest.fn(async () => fakeStream());
+  Object.defineProperty(navigator, "mediaDevices", {
+    configurable: true,
+    value: { getUserMedia },
+  });
+  Object.assign(window, { AudioWorkletNode: FakeWorkletNode });
+  URL.createObjectURL = jest.fn(() => "blob:worklet");
+  const context = {
+    createMediaStreamSource: jest.fn(fakeNode),
+    audioWorklet: { addModule: jest.fn(async () => {}) },
+  };
+  jest
+    .spyOn(utils, "audioContext")
+    .mockResolvedValue(context as unknown as AudioContext);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test("a denied microphone fails the start without blocking the next one", async () => {
+  const recorder = new AudioRecorder();
+  getUserMedia.mockRejectedValueOnce(new Error("Permission denied"));
+
+  await expect(recorder.start()).rejects.toThrow("Permission denied");
+  expect(recorder.recording).toBe(false);
+  expect(recorder.stream).toBeUndefined();
+
+  await recorder.start();
+  expect(recorder.recording).toBe(true);
+  recorder.stop();
+  expect(recorder.recording).toBe(false);
+});
+
+test("a start that fails after opening the input releases it", async () => {
+  const recorder = new AudioRecorder();
+  const stream = fakeStream();
+  getUserMedia.mockResolvedValueOnce(stream);
+  (utils.audioContext as jest.Mock).mockRejectedValueOnce(new Error("no audio"));
+
+  await expect(recorder.start()).rejects.toThrow("no audio");
+  expect(stream.track.stop).toHaveBeenCalled();
+  expect(recorder.stream).toBeUndefined();
+
+  // stop while a failed start settles does not throw either
+  getUserMedia.mockRejectedValueOnce(new Error("Permission denied"));
+  const failed = recorder.start();
+  recorder.stop();
+  await expect(failed).rejects.toThrow("Permission denied");
+});
+
+test("a microphone that fails to open falls back to the default one", async () => {
+  const recorder = new AudioRecorder();
+  await recorder.start();
+  const first = recorder.stream as ReturnType<typeof fakeStream>;
+
+  getUserMedia.mockRejectedValueOnce(new Error("Requested device not found"));
+  await recorder.setConstraints({ deviceId: { exact: "usb" }, echoCancellation: false });
+  expect(getUserMedia).toHaveBeenLastCalledWith({ audio: { echoCancellation: false } });
+  expect(first.track.stop).toHaveBeenCalled();
+  const fallback = recorder.stream;
+  expect(fallback).not.toBe(first);
+
+  // later switches still go through
+  await recorder.setConstraints({ deviceId: { exact: "headset" } });
+  expect(getUserMedia).toHaveBeenLastCalledWith({
+    audio: { deviceId: { exact: "headset" } },
+  });
+  expect(recorder.stream).not.toBe(fallback);
+  expect(recorder.recording).toBe(true);
+});
+
+test("a switch queued behind a failed start does not hang", async () => {
+  const recorder = new AudioRecorder();
+  const denied = new Error("Permission denied");
+  // the start also retries without the device the switch picks
+  getUserMedia.mockRejectedValueOnce(denied).mockRejectedValueOnce(denied);
+  const failed = recorder.start();
+  const switched = recorder.setConstraints({ deviceId: { exact: "usb" } });
+
+  await expect(failed).rejects.toThrow("Permission denied");
+  await switched;
+  // picked up by the next start
+  await recorder.start();
+  expect(getUserMedia).toHaveBeenLastCalledWith({
+    audio: { deviceId: { exact: "usb" } },
+  });
+});
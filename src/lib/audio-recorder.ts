@@ -17,6 +17,7 @@
 import { audioContext } from "./utils";
 import AudioRecordingWorklet from "./worklets/audio-processing";
 import VolMeterWorket from "./worklets/vol-meter";
+import { defaultVadOptions, VadOptions } from "./voice-activity";
 
 import { createWorketFromSrc } from "./audioworklet-registry";
 import EventEmitter from "eventemitter3";
@@ -31,6 +32,25 @@ function arrayBufferToBase64(buffer: ArrayBuffer) {
   return window.btoa(binary);
 }
 
+// the input context is reused across starts, e.g. every push-to-talk press,
+// and a processor name can only be registered once per context
+const loadedWorklets = new WeakMap<AudioContext, Set<string>>();
+
+async function addWorklet(context: AudioContext, name: string, src: string) {
+  const loaded = loadedWorklets.get(context) ?? new Set<string>();
+  loadedWorklets.set(context, loaded);
+  if (!loaded.has(name)) {
+    await context.audioWorklet.addModule(createWorketFromSrc(name, src));
+    loaded.add(name);
+  }
+}
+
+/**
+ * Records the microphone as base64 PCM16 chunks
+ * Emits "data" for every chunk, "volume" for the meter, "speechstart"
+ * and "speechend" from the voice activity detection in the worklet and
+ * "inputended" when the input device goes away
+ */
 export class AudioRecorder extends EventEmitter {
   stream: MediaStream | undefined;
   audioContext: AudioContext | undefined;
@@ -38,10 +58,19 @@ export class AudioRecorder extends EventEmitter {
   recording: boolean = false;
   recordingWorklet: AudioWorkletNode | undefined;
   vuWorklet: AudioWorkletNode | undefined;
+  // the user is talking, by the voice activity detection
+  speaking: boolean = false;
+  // device and processing, see setConstraints
+  constraints: MediaTrackConstraints = {};
 
   private starting: Promise<void> | null = null;
+  // input switches run one after another
+  private switching: Promise<void> = Promise.resolve();
 
-  constructor(public sampleRate = 16000) {
+  constructor(
+    public sampleRate = 16000,
+    public vad: VadOptions = defaultVadOptions
+  ) {
     super();
   }
 
@@ -49,22 +78,53 @@ export class AudioRecorder extends EventEmitter {
     if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
       throw new Error("Could not request user media");
     }
+    // already recording, or about to be unless a stop is queued before us,
+    // a start that failed is tried again
+    if (this.starting) {
+      await this.starting.catch(() => {});
+    }
+    if (this.stream) {
+      return;
+    }
 
-    this.starting = new Promise(async (resolve, reject) => {
-      this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      this.audioContext = await audioContext({ sampleRate: this.sampleRate });
+    const starting = this.open();
+    this.starting = starting;
+    try {
+      await starting;
+    } finally {
+      if (this.starting === starting) {
+        this.starting = null;
+      }
+    }
+  }
+
+  /**
+   * opens the input and connects the worklets, on failure nothing is left
+   * half open, e.g. when the microphone permission is denied
+   */
+  private async open() {
+    try {
+      this.stream = await this.openInput();
+      this.audioContext = await audioContext({
+        id: "audio-in",
+        sampleRate: this.sampleRate,
+      });
       this.source = this.audioContext.createMediaStreamSource(this.stream);
+      this.watchInput(this.stream);
 
       const workletName = "audio-recorder-worklet";
-      const src = createWorketFromSrc(workletName, AudioRecordingWorklet);
-
-      await this.audioContext.audioWorklet.addModule(src);
+      await addWorklet(this.audioContext, workletName, AudioRecordingWorklet);
       this.recordingWorklet = new AudioWorkletNode(
         this.audioContext,
         workletName,
+        { processorOptions: { vad: this.vad } },
       );
 
       this.recordingWorklet.port.onmessage = async (ev: MessageEvent) => {
+        if (ev.data.event === "speechstart" || ev.data.event === "speechend") {
+          this.setSpeaking(ev.data.event === "speechstart");
+          return;
+        }
         // worklet processes recording floats and messages converted buffer
         const arrayBuffer = ev.data.data.int16arrayBuffer;
 
@@ -77,9 +137,7 @@ export class AudioRecorder extends EventEmitter {
 
       // vu meter worklet
       const vuWorkletName = "vu-meter";
-      await this.audioContext.audioWorklet.addModule(
-        createWorketFromSrc(vuWorkletName, VolMeterWorket),
-      );
+      await addWorklet(this.audioContext, vuWorkletName, VolMeterWorket);
       this.vuWorklet = new AudioWorkletNode(this.audioContext, vuWorkletName);
       this.vuWorklet.port.onmessage = (ev: MessageEvent) => {
         this.emit("volume", ev.data.volume);
@@ -87,15 +145,105 @@ export class AudioRecorder extends EventEmitter {
 
       this.source.connect(this.vuWorklet);
       this.recording = true;
-      resolve();
-      this.starting = null;
+    } catch (e) {
+      this.source?.disconnect();
+      this.stream?.getTracks().forEach((track) => track.stop());
+      this.stream = undefined;
+      this.source = undefined;
+      this.recordingWorklet = undefined;
+      this.vuWorklet = undefined;
+      throw e;
+    }
+  }
+
+  /**
+   * the chosen device, or the default one when it cannot be opened,
+   * e.g. once it is unplugged
+   */
+  private async openInput() {
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio: this.constraints });
+    } catch (e) {
+      if (!this.constraints.deviceId) {
+        throw e;
+      }
+      const { deviceId, ...processing } = this.constraints;
+      return navigator.mediaDevices.getUserMedia({ audio: processing });
+    }
+  }
+
+  private watchInput(stream: MediaStream) {
+    stream.getAudioTracks().forEach((track) => {
+      // not fired for tracks we stop ourselves
+      track.onended = () => {
+        this.emit("inputended");
+        this.queueSwitch();
+      };
     });
   }
 
+  /**
+   * Change the input device or its processing. While recording, the new
+   * input is connected to the running worklets, so the session only hears
+   * a short gap instead of the recorder restarting
+   */
+  setConstraints(constraints: MediaTrackConstraints) {
+    if (JSON.stringify(constraints) === JSON.stringify(this.constraints)) {
+      return this.switching;
+    }
+    this.constraints = constraints;
+    return this.queueSwitch();
+  }
+
+  private queueSwitch() {
+    this.switching = this.switching
+      .then(() => this.switchInput())
+      .catch((e) => console.error("could not switch the microphone", e));
+    return this.switching;
+  }
+
+  private async switchInput() {
+    if (this.starting) {
+      await this.starting.catch(() => {});
+    }
+    const previous = this.stream;
+    if (!previous || !this.audioContext || !this.recordingWorklet) {
+      // picked up by the next start
+      return;
+    }
+    // if no microphone opens, recording goes on from the current input and
+    // the error is logged by queueSwitch, the next switch is not held up
+    const stream = await this.openInput();
+    if (this.stream !== previous) {
+      // stopped in the meantime
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+    const source = this.audioContext.createMediaStreamSource(stream);
+    source.connect(this.recordingWorklet);
+    if (this.vuWorklet) {
+      source.connect(this.vuWorklet);
+    }
+    this.source?.disconnect();
+    previous.getTracks().forEach((track) => track.stop());
+    this.stream = stream;
+    this.source = source;
+    this.watchInput(stream);
+  }
+
+  private setSpeaking(speaking: boolean) {
+    if (this.speaking !== speaking) {
+      this.speaking = speaking;
+      this.emit(speaking ? "speechstart" : "speechend");
+    }
+  }
+
   stop() {
     // its plausible that stop would be called before start completes
     // such as if the websocket immediately hangs up
     const handleStop = () => {
+      this.setSpeaking(false);
+      this.recording = false;
       this.source?.disconnect();
       this.stream?.getTracks().forEach((track) => track.stop());
       this.stream = undefined;
@@ -103,7 +251,7 @@ export class AudioRecorder extends EventEmitter {
       this.vuWorklet = undefined;
     };
     if (this.starting) {
-      this.starting.then(handleStop);
+      this.starting.then(handleStop, handleStop);
       return;
     }
     handleStop();
@@ -30,8 +30,10 @@ export class AudioStreamer {
   private checkInterval: number | null = null;
   private scheduledTime: number = 0;
   private initialBufferTime: number = 0.1; //0.1 // 100ms initial buffer
-  // Web Audio API nodes. source => gain => destination
+  // Web Audio API nodes. source => gain => output
   public gainNode: GainNode;
+  // destination unless set, e.g. a panner
+  private output: AudioNode;
   public source: AudioBufferSourceNode;
   private endOfQueueAudioSource: AudioBufferSourceNode | null = null;
 
@@ -40,7 +42,8 @@ export class AudioStreamer {
   constructor(public context: AudioContext) {
     this.gainNode = this.context.createGain();
     this.source = this.context.createBufferSource();
-    this.gainNode.connect(this.context.destination);
+    this.output = this.context.destination;
+    this.gainNode.connect(this.output);
     this.addPCM16 = this.addPCM16.bind(this);
   }
 
@@ -231,10 +234,19 @@ export class AudioStreamer {
     setTimeout(() => {
       this.gainNode.disconnect();
       this.gainNode = this.context.createGain();
-      this.gainNode.connect(this.context.destination);
+      this.gainNode.connect(this.output);
     }, 200);
   }
 
+  /**
+   * routes playback through another node instead of straight to destination
+   */
+  setOutput(node: AudioNode) {
+    this.gainNode.disconnect(this.output);
+    this.output = node;
+    this.gainNode.connect(node);
+  }
+
   async resume() {
     if (this.context.state === "suspended") {
       await this.context.resume();
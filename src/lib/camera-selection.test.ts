@@ -0,0 +1,40 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { nextCamera, pickCamera, useCameraStore } from "./camera-selection";
+
+const front = { deviceId: "front", label: "Front Camera", groupId: "a" };
+const back = { deviceId: "back", label: "Back Camera", groupId: "a" };
+const usb = { deviceId: "usb", label: "USB Webcam", groupId: "b" };
+
+test("the chosen camera is used while plugged in, a rear one otherwise", () => {
+  expect(pickCamera([front, back, usb], "usb")).toBe(usb);
+  // unplugged
+  expect(pickCamera([front, back], "usb")).toBe(back);
+  expect(pickCamera([front], "usb")).toBe(front);
+  expect(pickCamera([], "usb")).toBeNull();
+
+  expect(nextCamera([front, back, usb], "back")).toBe(usb);
+  expect(nextCamera([front, back, usb], "usb")).toBe(front);
+  expect(nextCamera([front, back], "gone")).toBe(front);
+});
+
+test("the chosen camera is persisted", () => {
+  useCameraStore.getState().setDeviceId("usb");
+  expect(JSON.parse(localStorage.getItem("lumex-camera")!).state).toEqual({
+    deviceId: "usb",
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { CameraDevice } from "../hooks/use-camera-devices";
+
+// labels browsers give cameras facing away from the user
+const REAR_CAMERA = /\b(?:back|rear|environment|world)\b/i;
+
+/**
+ * The camera to use: the chosen one while it is plugged in, otherwise a rear
+ * camera, which is what navigation needs, otherwise the first one
+ */
+export function pickCamera(
+  devices: CameraDevice[],
+  preferredId: string | null
+): CameraDevice | null {
+  return (
+    devices.find((d) => d.deviceId === preferredId) ||
+    devices.find((d) => REAR_CAMERA.test(d.label)) ||
+    devices[0] ||
+    null
+  );
+}
+
+/**
+ * the camera after the current one, for a switch camera button
+ */
+export function nextCamera(
+  devices: CameraDevice[],
+  currentId: string | null
+): CameraDevice | null {
+  if (!devices.length) {
+    return null;
+  }
+  const index = devices.findIndex((d) => d.deviceId === currentId);
+  return devices[(index + 1) % devices.length];
+}
+
+interface CameraStoreState {
+  deviceId: string | null;
+  setDeviceId: (deviceId: string | null) => void;
+}
+
+/**
+ * The camera the user chose, kept across reloads
+ */
+export const useCameraStore = create<CameraStoreState>()(
+  persist(
+    (set) => ({
+      deviceId: null,
+      setDeviceId: (deviceId: string | null) => set({ deviceId }),
+    }),
+    { name: "lumex-camera" }
+  )
+);
@@ -0,0 +1,46 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { captureProfiles, frameGeometry } from "./capture-profiles";
+
+test("profiles crop and scale frames within their limits", () => {
+  expect(frameGeometry(captureProfiles.navigation, 1280, 720)).toEqual({
+    sx: 0,
+    sy: 0,
+    sw: 1280,
+    sh: 720,
+    width: 320,
+    height: 180,
+  });
+  // the middle 60% at full resolution
+  expect(frameGeometry(captureProfiles.reading, 1920, 1080)).toEqual({
+    sx: 384,
+    sy: 216,
+    sw: 1152,
+    sh: 648,
+    width: 1152,
+    height: 648,
+  });
+  // capped at the longest side
+  expect(frameGeometry(captureProfiles.reading, 3840, 2160)).toMatchObject({
+    width: 1280,
+    height: 720,
+  });
+  expect(frameGeometry(captureProfiles["battery-saver"], 3840, 2160)).toMatchObject({
+    width: 320,
+    height: 180,
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { create } from "zustand";
+
+/**
+ * How camera frames are captured before they are sent.
+ * Navigation wants small frames often, reading a sign or label wants fewer,
+ * sharper frames of the middle of the view.
+ */
+export type CaptureProfileName = "navigation" | "reading" | "battery-saver";
+
+export type CaptureProfile = {
+  name: CaptureProfileName;
+  label: string;
+  // of the video resolution
+  scale: number;
+  // longest side in pixels after scaling
+  maxDimension: number;
+  // JPEG quality from 0 to 1
+  quality: number;
+  // shortest time between frames, caps the frame scheduler's rate
+  intervalMs: number;
+  // fraction of the width and height kept around the centre, 1 keeps all
+  crop: number;
+};
+
+export const captureProfiles: Record<CaptureProfileName, CaptureProfile> = {
+  navigation: {
+    name: "navigation",
+    label: "Navigation",
+    scale: 0.25,
+    maxDimension: 480,
+    quality: 0.6,
+    intervalMs: 250,
+    crop: 1,
+  },
+  reading: {
+    name: "reading",
+    label: "Reading",
+    scale: 1,
+    maxDimension: 1280,
+    quality: 0.85,
+    intervalMs: 1000,
+    crop: 0.6,
+  },
+  "battery-saver": {
+    name: "battery-saver",
+    label: "Battery saver",
+    scale: 0.2,
+    maxDimension: 320,
+    quality: 0.5,
+    intervalMs: 2000,
+    crop: 1,
+  },
+};
+
+export const CAPTURE_PROFILE_NAMES = Object.keys(captureProfiles) as CaptureProfileName[];
+
+export type FrameGeometry = {
+  // the part of the video drawn
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+  // the size of the frame sent
+  width: number;
+  height: number;
+};
+
+/**
+ * Where to crop a video frame and what size to scale it to for a profile
+ */
+export function frameGeometry(
+  profile: CaptureProfile,
+  videoWidth: number,
+  videoHeight: number
+): FrameGeometry {
+  const sw = Math.round(videoWidth * profile.crop);
+  const sh = Math.round(videoHeight * profile.crop);
+  const scale = Math.min(
+    profile.scale,
+    profile.maxDimension / Math.max(sw, sh, 1)
+  );
+  return {
+    sx: Math.round((videoWidth - sw) / 2),
+    sy: Math.round((videoHeight - sh) / 2),
+    sw,
+    sh,
+    width: Math.round(sw * scale),
+    height: Math.round(sh * scale),
+  };
+}
+
+interface CaptureStoreState {
+  profile: CaptureProfileName;
+  setProfile: (profile: CaptureProfileName) => void;
+}
+
+/**
+ * The active capture profile, switched from settings or by voice
+ */
+export const useCaptureStore = create<CaptureStoreState>((set) => ({
+  profile: "navigation",
+  setProfile: (profile: CaptureProfileName) => set({ profile }),
+}));
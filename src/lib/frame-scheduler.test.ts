@@ -0,0 +1,63 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { FrameScheduler, frameDifference, toGrayscale } from "./frame-scheduler";
+
+/** a 32x24 sample with a bright square at column x */
+function sample(x: number, brightness = 0) {
+  const gray = new Uint8Array(32 * 24).fill(60 + brightness);
+  for (let row = 8; row < 16; row++) {
+    for (let col = x; col < x + 8; col++) {
+      gray[row * 32 + col] = 220 + brightness / 4;
+    }
+  }
+  return gray;
+}
+
+test("frames are compared ignoring overall brightness", () => {
+  expect(toGrayscale(new Uint8ClampedArray([255, 255, 255, 255, 0, 0, 0, 255]))).toEqual(
+    new Uint8Array([255, 0])
+  );
+  expect(frameDifference(sample(0), sample(0))).toBe(0);
+  expect(frameDifference(sample(0), sample(0, 30))).toBeLessThan(0.015);
+  expect(frameDifference(sample(0), sample(16))).toBeGreaterThan(0.06);
+});
+
+test("the rate rises on change and falls to a trickle when still", () => {
+  const scheduler = new FrameScheduler();
+  let now = 0;
+  const next = (gray: Uint8Array) => {
+    const decision = scheduler.next(gray, now);
+    now += decision.delayMs;
+    return decision;
+  };
+
+  expect(next(sample(0))).toMatchObject({ send: true, delayMs: 250 });
+  // standing still, duplicates are skipped and sampling slows down
+  const still = [1, 2, 3, 4, 5].map(() => next(sample(0)));
+  expect(still.map((d) => d.send)).toEqual([false, false, false, false, false]);
+  expect(still.map((d) => d.delayMs)).toEqual([500, 1000, 2000, 4000, 8000]);
+  // a frame is still sent every 10 seconds
+  expect(next(sample(0))).toMatchObject({ send: true, delayMs: 10000 });
+
+  // walking toward something
+  expect(next(sample(16))).toMatchObject({ send: true, delayMs: 250 });
+
+  // navigation keeps at least one frame per second
+  scheduler.navigating = true;
+  [1, 2, 3, 4].forEach(() => next(sample(16)));
+  expect(scheduler.rate).toBe(1);
+});
@@ -0,0 +1,148 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Decides how often camera frames are sent, from how much the scene changes.
+ * Frames are compared as small grayscale samples: walking toward something
+ * raises the rate up to maxFps, standing still lets it fall back to a trickle
+ * and frames that look the same as the last one sent are skipped.
+ */
+
+export type FrameSchedulerOptions = {
+  // ceiling, used as soon as the scene changes
+  maxFps: number;
+  // floor while navigation is active
+  navigationFps: number;
+  // floor otherwise, a still scene is still sent this often
+  trickleFps: number;
+  // mean difference, from 0 to 1, that counts as the scene changing
+  changeThreshold: number;
+  // below this a frame is a duplicate of the last one sent
+  duplicateThreshold: number;
+};
+
+export const defaultFrameSchedulerOptions: FrameSchedulerOptions = {
+  maxFps: 4,
+  navigationFps: 1,
+  trickleFps: 0.1,
+  changeThreshold: 0.06,
+  duplicateThreshold: 0.015,
+};
+
+/** width of the samples compared, height follows the aspect ratio */
+export const SAMPLE_WIDTH = 32;
+
+/**
+ * luminance of RGBA pixels, e.g. from getImageData
+ */
+export function toGrayscale(rgba: Uint8ClampedArray): Uint8Array {
+  const gray = new Uint8Array(rgba.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] =
+      (rgba[i * 4] * 299 + rgba[i * 4 + 1] * 587 + rgba[i * 4 + 2] * 114) / 1000;
+  }
+  return gray;
+}
+
+function mean(values: Uint8Array) {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+  }
+  return values.length ? sum / values.length : 0;
+}
+
+/**
+ * Mean absolute difference of two grayscale samples, from 0 to 1
+ * Each sample's average brightness is subtracted first, so the camera
+ * adjusting its exposure does not count as the scene changing
+ */
+export function frameDifference(a: Uint8Array, b: Uint8Array) {
+  if (a.length !== b.length || !a.length) {
+    return 1;
+  }
+  const offset = mean(a) - mean(b);
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.abs(a[i] - b[i] - offset);
+  }
+  return sum / a.length / 255;
+}
+
+export type FrameDecision = {
+  // send this frame
+  send: boolean;
+  // when to sample the next one
+  delayMs: number;
+  // difference from the previous sample
+  change: number;
+};
+
+export class FrameScheduler {
+  public options: FrameSchedulerOptions;
+
+  /** raises the floor to navigationFps */
+  public navigating = false;
+
+  private fps: number;
+  private previous: Uint8Array | null = null;
+  private lastSent: { sample: Uint8Array; at: number } | null = null;
+
+  constructor(options: Partial<FrameSchedulerOptions> = {}) {
+    this.options = { ...defaultFrameSchedulerOptions, ...options };
+    this.fps = this.options.maxFps;
+  }
+
+  /** current sampling rate in frames per second */
+  get rate() {
+    return this.fps;
+  }
+
+  /**
+   * Start over, e.g. when the video source changes
+   */
+  reset() {
+    this.fps = this.options.maxFps;
+    this.previous = null;
+    this.lastSent = null;
+  }
+
+  /**
+   * Decide about a sampled frame
+   *
+   * @param sample - Grayscale sample of the frame, see toGrayscale
+   */
+  next(sample: Uint8Array, now = Date.now()): FrameDecision {
+    const { maxFps, navigationFps, trickleFps, changeThreshold, duplicateThreshold } =
+      this.options;
+    const floor = Math.min(maxFps, this.navigating ? navigationFps : trickleFps);
+
+    const change = this.previous ? frameDifference(this.previous, sample) : 1;
+    this.previous = sample;
+    // jump up on change, halve on every quiet frame down to the floor
+    this.fps =
+      change >= changeThreshold ? maxFps : Math.max(floor, Math.min(maxFps, this.fps / 2));
+
+    // compared with the last frame sent, so slow drift is sent eventually
+    const drift = this.lastSent ? frameDifference(this.lastSent.sample, sample) : 1;
+    const heartbeatDue = !this.lastSent || now - this.lastSent.at >= 1000 / trickleFps;
+    const send = drift >= duplicateThreshold || heartbeatDue;
+    if (send) {
+      this.lastSent = { sample, at: now };
+    }
+    return { send, delayMs: 1000 / this.fps, change };
+  }
+}
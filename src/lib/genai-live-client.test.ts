@@ -0,0 +1,198 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  LiveCallbacks,
+  LiveServerContent,
+  LiveServerMessage,
+  Session,
+} from "@google/genai";
+import { GenAILiveClient } from "./genai-live-client";
+
+class TestClient extends GenAILiveClient {
+  receive(serverContent: LiveServerContent) {
+    return this.onmessage({ serverContent } as LiveServerMessage);
+  }
+
+  get live() {
+    return this.client.live;
+  }
+}
+
+// a server that accepts every connection until told otherwise,
+// keeping the callbacks of the latest one to close it or send to it
+function fakeServer(client: TestClient) {
+  const server = { callbacks: null as LiveCallbacks | null, accept: true };
+  const connect = jest
+    .spyOn(client.live, "connect")
+    .mockImplementation(async ({ callbacks }) => {
+      if (!server.accept) {
+        throw new Error("refused");
+      }
+      server.callbacks = callbacks;
+      callbacks.onopen?.();
+      return { close: jest.fn() } as unknown as Session;
+    });
+  return { server, connect };
+}
+
+const drop = (server: { callbacks: LiveCallbacks | null }) =>
+  server.callbacks!.onclose!(new CloseEvent("close"));
+
+// fires the pending reconnect and lets the attempt settle
+async function nextAttempt() {
+  jest.runOnlyPendingTimers();
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+}
+
+test("transcriptions are emitted partially and finished at turn boundaries", async () => {
+  const client = new TestClient({ apiKey: "test" });
+  const input: [string, boolean][] = [];
+  const output: [string, boolean][] = [];
+  const logs: string[] = [];
+  client.on("inputtranscription", (text, finished) => input.push([text, finished]));
+  client.on("outputtranscription", (text, finished) => output.push([text, finished]));
+  client.on("log", ({ type }) => logs.push(type));
+
+  await client.receive({ inputTranscription: { text: "where " } });
+  await client.receive({ inputTranscription: { text: "am I?" } });
+  await client.receive({ outputTranscription: { text: "You are " } });
+  await client.receive({ outputTranscription: { text: "by the door." } });
+  await client.receive({ turnComplete: true });
+
+  expect(input).toEqual([
+    ["where ", false],
+    ["where am I?", false],
+    ["where am I?", true],
+  ]);
+  expect(output).toEqual([
+    ["You are ", false],
+    ["You are by the door.", false],
+    ["You are by the door.", true],
+  ]);
+  expect(logs).toEqual([
+    "server.inputTranscription",
+    "server.outputTranscription",
+    "server.content",
+  ]);
+
+  // an interruption finishes what the model said so far
+  await client.receive({ outputTranscription: { text: "Turn" } });
+  await client.receive({ interrupted: true });
+  expect(output.at(-1)).toEqual(["Turn", true]);
+});
+
+describe("reconnecting", () => {
+  beforeEach(() => {
+    jest.useFakeTimers("legacy");
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test("retries after a drop and only resets attempts on setupComplete", async () => {
+    const client = new TestClient({ apiKey: "test" });
+    const { server, connect } = fakeServer(client);
+    const attempts: number[] = [];
+    const reconnected = jest.fn();
+    client.on("reconnecting", (attempt) => attempts.push(attempt));
+    client.on("reconnected", reconnected);
+
+    await client.connect("models/test", {});
+    drop(server);
+    expect(client.status).toBe("reconnecting");
+    await nextAttempt();
+    expect(client.status).toBe("connected");
+    expect(connect).toHaveBeenCalledTimes(2);
+    expect(reconnected).toHaveBeenCalledWith(false);
+
+    // accepted and closed before setup, still counts against the policy
+    drop(server);
+    await nextAttempt();
+    server.callbacks!.onmessage({ setupComplete: {} } as LiveServerMessage);
+    drop(server);
+    await nextAttempt();
+
+    expect(attempts).toEqual([1, 2, 1]);
+    client.disconnect();
+  });
+
+  test("resumes with the latest handle and drops it when not resumable", async () => {
+    const client = new TestClient({ apiKey: "test" });
+    const { server, connect } = fakeServer(client);
+    const reconnected = jest.fn();
+    client.on("reconnected", reconnected);
+    const update = (resumable: boolean, newHandle?: string) =>
+      server.callbacks!.onmessage({
+        sessionResumptionUpdate: { resumable, newHandle },
+      } as LiveServerMessage);
+
+    await client.connect("models/test", {});
+    expect(connect.mock.calls[0][0].config?.sessionResumption).toEqual({});
+    update(true, "handle-1");
+    drop(server);
+    await nextAttempt();
+    expect(connect.mock.calls[1][0].config?.sessionResumption).toEqual({
+      handle: "handle-1",
+    });
+    expect(reconnected).toHaveBeenLastCalledWith(true);
+
+    update(false);
+    expect(client.resumptionHandle).toBeNull();
+    drop(server);
+    await nextAttempt();
+    expect(connect.mock.calls[2][0].config?.sessionResumption).toEqual({});
+    expect(reconnected).toHaveBeenLastCalledWith(false);
+    client.disconnect();
+  });
+
+  test("gives up when the policy runs out of attempts", async () => {
+    const client = new TestClient({ apiKey: "test", reconnect: { maxAttempts: 2 } });
+    const { server, connect } = fakeServer(client);
+    const failed = jest.fn();
+    client.on("reconnectfailed", failed);
+
+    await client.connect("models/test", {});
+    server.accept = false;
+    drop(server);
+    await nextAttempt();
+    expect(client.status).toBe("reconnecting");
+    await nextAttempt();
+
+    expect(failed).toHaveBeenCalledWith(2);
+    expect(client.status).toBe("disconnected");
+    expect(connect).toHaveBeenCalledTimes(3);
+  });
+
+  test("does not reconnect after disconnect()", async () => {
+    const client = new TestClient({ apiKey: "test" });
+    const { server, connect } = fakeServer(client);
+
+    await client.connect("models/test", {});
+    drop(server);
+    expect(client.status).toBe("reconnecting");
+    client.disconnect();
+    await nextAttempt();
+
+    expect(client.status).toBe("disconnected");
+    expect(connect).toHaveBeenCalledTimes(1);
+  });
+});
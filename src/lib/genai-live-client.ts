@@ -26,12 +26,39 @@ import {
   LiveServerToolCallCancellation,
   Part,
   Session,
+  Transcription,
 } from "@google/genai";
 
 import { EventEmitter } from "eventemitter3";
 import { difference } from "lodash";
-import { LiveClientOptions, StreamingLog, SceneMemory, SceneObject, Position, SceneSnapshot } from "../types";
+import { LiveClientOptions, StreamingLog, SceneMemory, SceneObject, SceneObservation, Position, SceneSnapshot, ReconnectPolicy, NavigationStep } from "../types";
 import { base64ToArrayBuffer } from "./utils";
+import { backoffDelay, resolveReconnectPolicy } from "./reconnect-policy";
+import { planRoute, PlannerOptions } from "./path-planner";
+import { retraceRoute } from "./retrace";
+import { SavedSceneSummary, SceneStore } from "./scene-store";
+import { parseScene, serializeScene } from "./scene-format";
+import { SessionRecorder, SessionRecording } from "./session-recorder";
+import {
+  appendSnapshot,
+  defaultHistoryLimits,
+  HistoryLimits,
+  objectsAt,
+} from "./scene-history";
+import {
+  currentConfidence,
+  defaultStalenessPolicy,
+  findMatchingObject,
+  generateObjectId,
+  mergeObjects,
+  StalenessPolicy,
+} from "./scene-objects";
+import {
+  clockPosition,
+  distanceBetween,
+  normalizeAngle,
+  relativeBearing,
+} from "./spatial";
 
 /**
  * Event types that can be emitted by the MultimodalLiveClient.
@@ -62,8 +89,22 @@ export interface LiveClientEventTypes {
   ) => void;
   // Emitted when the current turn is complete
   turncomplete: () => void;
+  // Emitted as the user's speech is transcribed, text is the utterance so far
+  // and finished is true once, with the complete utterance
+  inputtranscription: (text: string, finished: boolean) => void;
+  // Emitted as the model's speech is transcribed, like inputtranscription
+  outputtranscription: (text: string, finished: boolean) => void;
   // Emitted when scene memory is updated
   sceneupdate: (scene: SceneMemory) => void;
+  // Emitted when the navigation goal has been reached
+  goalreached: (goalDescription?: string) => void;
+  // Emitted before each reconnection attempt after an unexpected close
+  reconnecting: (attempt: number, delayMs: number) => void;
+  // Emitted once a reconnection attempt succeeds, resumed is true when the
+  // server session was restored from a resumption handle
+  reconnected: (resumed: boolean) => void;
+  // Emitted when the reconnect policy runs out of attempts
+  reconnectfailed: (attempts: number) => void;
 }
 
 /**
@@ -74,7 +115,11 @@ export interface LiveClientEventTypes {
 export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
   protected client: GoogleGenAI;
 
-  private _status: "connected" | "disconnected" | "connecting" = "disconnected";
+  private _status:
+    | "connected"
+    | "disconnected"
+    | "connecting"
+    | "reconnecting" = "disconnected";
   public get status() {
     return this._status;
   }
@@ -95,6 +140,27 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
     return { ...this.config };
   }
 
+  /**
+   * Reconnection state
+   * The generation counter lets callbacks from a session we already replaced
+   * or closed on purpose be told apart from the live one
+   */
+  private reconnectPolicy: ReconnectPolicy | null;
+  private reconnectAttempts = 0;
+  private reconnectTimeoutId = -1;
+  private generation = 0;
+
+  private _resumptionHandle: string | null = null;
+  public get resumptionHandle() {
+    return this._resumptionHandle;
+  }
+
+  /**
+   * Transcription chunks of the utterance in progress, enable them with
+   * inputAudioTranscription / outputAudioTranscription in the connect config
+   */
+  private transcripts = { input: "", output: "" };
+
   /**
    * Scene Memory Management
    * Stores the current scene state including user position and detected objects
@@ -102,6 +168,7 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
    */
   private _sceneMemory: SceneMemory = {
     user: [0, 0], // Initialize user at origin
+    heading: 0, // facing forward
     objects: [],
     history: []
   };
@@ -110,14 +177,87 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
     return this._sceneMemory;
   }
 
+  /**
+   * Scene persistence
+   * Every scene update is saved under the active scene name, so a reload
+   * can restore the map of a familiar room instead of rescanning it
+   */
+  private sceneStore: SceneStore | null;
+
+  private _sceneName = "default";
+  public get sceneName() {
+    return this._sceneName;
+  }
+
+  /**
+   * Options for the local route planner, e.g. footprints per object category
+   */
+  public plannerOptions: PlannerOptions = {};
+
+  /**
+   * How far apart, in steps, two sightings of the same category can be
+   * and still be treated as the same object
+   */
+  public objectMatchRadius = 1.5;
+
+  /**
+   * How quickly unobserved objects lose confidence and when they count as stale
+   * Staleness is rechecked periodically while connected
+   */
+  public staleness: StalenessPolicy = { ...defaultStalenessPolicy };
+  private stalenessIntervalId = -1;
+
+  /**
+   * How many snapshots, and how old, scene history keeps
+   */
+  public historyLimits: HistoryLimits = { ...defaultHistoryLimits };
+
+  /**
+   * Active "take me back" route, replaces the planned route while set
+   * stepsTaken counts the moves reported since the retrace started
+   */
+  private _retrace: { steps: NavigationStep[]; stepsTaken: number } | null = null;
+  public get retrace() {
+    return this._retrace;
+  }
+
+  /**
+   * Session recording and replay, see session-recorder.ts
+   * replayGeneration invalidates a replay in progress when it is stopped,
+   * wakeReplay ends its wait for the next message early
+   */
+  private recorder: SessionRecorder | null = null;
+  public get recording() {
+    return !!this.recorder;
+  }
+
+  private _replaying = false;
+  public get replaying() {
+    return this._replaying;
+  }
+  private replayGeneration = 0;
+  private wakeReplay: (() => void) | null = null;
+
   constructor(options: LiveClientOptions) {
     super();
-    this.client = new GoogleGenAI(options);
+    const { reconnect, sceneStore, mockServerUrl, ...genAIOptions } = options;
+    this.client = new GoogleGenAI(
+      mockServerUrl
+        ? {
+            ...genAIOptions,
+            httpOptions: { ...genAIOptions.httpOptions, baseUrl: mockServerUrl },
+          }
+        : genAIOptions
+    );
+    this.reconnectPolicy = resolveReconnectPolicy(reconnect);
+    this.sceneStore = sceneStore || null;
     this.send = this.send.bind(this);
     this.onopen = this.onopen.bind(this);
     this.onerror = this.onerror.bind(this);
     this.onclose = this.onclose.bind(this);
     this.onmessage = this.onmessage.bind(this);
+    this.autoSaveScene = this.autoSaveScene.bind(this);
+    this.on("sceneupdate", this.autoSaveScene);
   }
 
   protected log(type: string, message: StreamingLog["message"]) {
@@ -130,30 +270,63 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
   }
 
   async connect(model: string, config: LiveConnectConfig): Promise<boolean> {
-    if (this._status === "connected" || this._status === "connecting") {
+    if (
+      this._status === "connected" ||
+      this._status === "connecting" ||
+      this._status === "reconnecting"
+    ) {
       return false;
     }
 
     this._status = "connecting";
     this.config = config;
     this._model = model;
+    this.reconnectAttempts = 0;
+
+    if (await this.openSession()) {
+      return true;
+    }
+    if (this._status === "connecting") {
+      this.scheduleReconnect();
+    }
+    return false;
+  }
+
+  /**
+   * opens a new session with the stored model and config,
+   * adding the session resumption handle when the policy allows it
+   */
+  private async openSession(): Promise<boolean> {
+    const generation = ++this.generation;
+    const model = this._model!;
+    const config = this.sessionConfig();
 
     const callbacks: LiveCallbacks = {
       onopen: this.onopen,
       onmessage: this.onmessage,
       onerror: this.onerror,
-      onclose: this.onclose,
+      onclose: (e: CloseEvent) => {
+        // ignore closes from sessions that were replaced or closed on purpose
+        if (generation === this.generation) {
+          this.onclose(e);
+        }
+      },
     };
 
     try {
-      this._session = await this.client.live.connect({
+      const session = await this.client.live.connect({
         model,
         config,
         callbacks,
       });
+      if (generation !== this.generation) {
+        // disconnect() was called while we were still connecting
+        session.close();
+        return false;
+      }
+      this._session = session;
     } catch (e) {
       console.error("Error connecting to GenAI Live:", e);
-      this._status = "disconnected";
       return false;
     }
 
@@ -161,8 +334,94 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
     return true;
   }
 
+  private sessionConfig(): LiveConnectConfig {
+    const config = this.config || {};
+    if (!this.reconnectPolicy?.resumeSession || config.sessionResumption) {
+      return config;
+    }
+    return {
+      ...config,
+      sessionResumption: this._resumptionHandle
+        ? { handle: this._resumptionHandle }
+        : {},
+    };
+  }
+
+  private scheduleReconnect() {
+    const policy = this.reconnectPolicy;
+    if (!policy || this.reconnectAttempts >= policy.maxAttempts) {
+      this._status = "disconnected";
+      if (policy) {
+        this.log(
+          "client.reconnect",
+          `giving up after ${this.reconnectAttempts} attempts`
+        );
+        this.emit("reconnectfailed", this.reconnectAttempts);
+      }
+      return;
+    }
+
+    const attempt = ++this.reconnectAttempts;
+    const delayMs = backoffDelay(policy, attempt - 1);
+    this._status = "reconnecting";
+    this.log(
+      "client.reconnect",
+      `attempt ${attempt}/${policy.maxAttempts} in ${delayMs}ms`
+    );
+    this.emit("reconnecting", attempt, delayMs);
+
+    const generation = this.generation;
+    this.reconnectTimeoutId = window.setTimeout(async () => {
+      if (generation !== this.generation) {
+        return;
+      }
+      const resumed = !!this._resumptionHandle;
+      if (await this.openSession()) {
+        // attempts are only reset by setupComplete, a server that accepts
+        // the socket and closes it straight away still runs out of attempts
+        this.log(
+          "client.reconnect",
+          resumed ? "reconnected, session resumed" : "reconnected"
+        );
+        this.emit("reconnected", resumed);
+        if (!resumed) {
+          this.restoreSceneContext();
+        }
+        return;
+      }
+      if (this._status !== "reconnecting") {
+        // disconnect() was called while the attempt was in flight
+        return;
+      }
+      // a stale or rejected handle must not block a fresh session
+      this._resumptionHandle = null;
+      this.scheduleReconnect();
+    }, delayMs);
+  }
+
+  /**
+   * a fresh session has no memory of the previous one, so replay the
+   * scene memory as context without asking the model for a response
+   */
+  private restoreSceneContext() {
+    const { objects, goal, goalDescription } = this._sceneMemory;
+    if (!objects.length && !goal && !goalDescription) {
+      return;
+    }
+    this.send([{ text: this.getSceneContext() }], false);
+  }
+
   public disconnect() {
+    // invalidate callbacks and pending reconnects for the current session
+    this.generation++;
+    clearTimeout(this.reconnectTimeoutId);
+    clearInterval(this.stalenessIntervalId);
+    this.reconnectAttempts = 0;
+    this._resumptionHandle = null;
+    this.transcripts = { input: "", output: "" };
+
     if (!this.session) {
+      this._status = "disconnected";
       return false;
     }
     this.session?.close();
@@ -176,6 +435,8 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
   protected onopen() {
     this.log("client.open", "Connected");
     this.emit("open");
+    clearInterval(this.stalenessIntervalId);
+    this.stalenessIntervalId = window.setInterval(() => this.refreshStaleness(), 10000);
   }
 
   protected onerror(e: ErrorEvent) {
@@ -184,16 +445,23 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
   }
 
   protected onclose(e: CloseEvent) {
+    clearInterval(this.stalenessIntervalId);
     this.log(
       `server.close`,
       `disconnected ${e.reason ? `with reason: ${e.reason}` : ``}`
     );
+    this._session = null;
+    this._status = "disconnected";
+    this.transcripts = { input: "", output: "" };
     this.emit("close", e);
+    this.scheduleReconnect();
   }
 
   protected async onmessage(message: LiveServerMessage) {
+    this.recorder?.record("in", "serverMessage", message);
     if (message.setupComplete) {
       this.log("server.send", "setupComplete");
+      this.reconnectAttempts = 0;
       this.emit("setupcomplete");
       return;
     }
@@ -207,17 +475,45 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
       this.emit("toolcallcancellation", message.toolCallCancellation);
       return;
     }
+    if (message.sessionResumptionUpdate) {
+      const { newHandle, resumable } = message.sessionResumptionUpdate;
+      if (!resumable) {
+        // the server could not resume at this point, an older handle
+        // would bring back a session that is out of date
+        this._resumptionHandle = null;
+      } else if (newHandle) {
+        this._resumptionHandle = newHandle;
+      }
+      this.log("server.sessionResumptionUpdate", `resumable: ${!!resumable}`);
+      return;
+    }
+    if (message.goAway) {
+      // the server closes shortly after this, onclose takes care of reconnecting
+      this.log("server.goAway", `time left: ${message.goAway.timeLeft}`);
+      return;
+    }
 
     // this json also might be `contentUpdate { interrupted: true }`
     // or contentUpdate { end_of_turn: true }
     if (message.serverContent) {
       const { serverContent } = message;
+      if (serverContent.inputTranscription) {
+        this.onTranscription("input", serverContent.inputTranscription);
+      }
+      if (serverContent.outputTranscription) {
+        // the model answering means the user has finished speaking
+        this.finishTranscription("input");
+        this.onTranscription("output", serverContent.outputTranscription);
+      }
       if ("interrupted" in serverContent) {
+        this.finishTranscription("output");
         this.log("server.content", "interrupted");
         this.emit("interrupted");
         return;
       }
       if ("turnComplete" in serverContent) {
+        this.finishTranscription("input");
+        this.finishTranscription("output");
         this.log("server.content", "turnComplete");
         this.emit("turncomplete");
       }
@@ -257,10 +553,40 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
     }
   }
 
+  private onTranscription(kind: "input" | "output", { text, finished }: Transcription) {
+    if (text) {
+      this.transcripts[kind] += text;
+      this.emitTranscription(kind, this.transcripts[kind], false);
+    }
+    if (finished) {
+      this.finishTranscription(kind);
+    }
+  }
+
+  private finishTranscription(kind: "input" | "output") {
+    const text = this.transcripts[kind].trim();
+    this.transcripts[kind] = "";
+    if (!text) {
+      return;
+    }
+    this.log(`server.${kind}Transcription`, text);
+    this.emitTranscription(kind, text, true);
+  }
+
+  private emitTranscription(kind: "input" | "output", text: string, finished: boolean) {
+    if (kind === "input") {
+      this.emit("inputtranscription", text, finished);
+    } else {
+      this.emit("outputtranscription", text, finished);
+    }
+  }
+
   /**
    * send realtimeInput, this is base64 chunks of "audio/pcm" and/or "image/jpg"
+   *
+   * @param details - Added to the log entry, e.g. the capture profile of a frame
    */
-  sendRealtimeInput(chunks: Array<{ mimeType: string; data: string }>) {
+  sendRealtimeInput(chunks: Array<{ mimeType: string; data: string }>, details?: string) {
     if (this._status !== "connected") {
       return;
     }
@@ -269,6 +595,7 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
     let hasVideo = false;
     for (const ch of chunks) {
       this.session?.sendRealtimeInput({ media: ch });
+      this.recorder?.record("out", "realtimeInput", ch);
       if (ch.mimeType.includes("audio")) {
         hasAudio = true;
       }
@@ -287,7 +614,22 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
         : hasVideo
         ? "video"
         : "unknown";
-    this.log(`client.realtimeInput`, message);
+    this.log(`client.realtimeInput`, details ? `${message} (${details})` : message);
+  }
+
+  /**
+   * mark where the user's speech starts and ends, required when automatic
+   * activity detection is disabled, or that the audio paused after speech
+   */
+  sendActivity(signal: "activityStart" | "activityEnd" | "audioStreamEnd") {
+    if (this._status !== "connected") {
+      return;
+    }
+    this.session?.sendRealtimeInput(
+      signal === "audioStreamEnd" ? { audioStreamEnd: true } : { [signal]: {} }
+    );
+    this.recorder?.record("out", "activity", signal);
+    this.log(`client.realtimeInput`, signal);
   }
 
   /**
@@ -301,6 +643,7 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
       this.session?.sendToolResponse({
         functionResponses: toolResponse.functionResponses,
       });
+      this.recorder?.record("out", "toolResponse", toolResponse);
       this.log(`client.toolResponse`, toolResponse);
     }
   }
@@ -313,47 +656,180 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
    * @param action - Description of the action taken (e.g., "Moved 2 steps forward")
    */
   updateUserPosition(newPosition: Position, action?: string) {
+    this.updateUserPose(newPosition, this._sceneMemory.heading, action);
+  }
+
+  /**
+   * Update user position and facing direction in scene memory
+   * Use this when a step includes a turn, e.g. "Turn 90 degrees right"
+   *
+   * @param newPosition - The new [x, y] position of the user
+   * @param heading - Degrees clockwise from the forward (+x) axis, 90 is facing right
+   * @param action - Description of the action taken (e.g., "Turned right")
+   */
+  updateUserPose(newPosition: Position, heading: number, action?: string) {
     // Save current state to history before updating
-    this._sceneMemory.history.push({
-      timestamp: Date.now(),
-      user: [...this._sceneMemory.user],
-      objects: [...this._sceneMemory.objects],
-      action
-    });
+    this._sceneMemory.history = appendSnapshot(
+      this._sceneMemory.history,
+      {
+        timestamp: Date.now(),
+        user: this._sceneMemory.user,
+        heading: this._sceneMemory.heading,
+        objects: this._sceneMemory.objects,
+        action
+      },
+      this.historyLimits
+    );
+
+    if (this._retrace) {
+      this._retrace.stepsTaken++;
+    }
 
-    // Update user position
+    // Update user pose
     this._sceneMemory.user = newPosition;
+    this._sceneMemory.heading = normalizeAngle(heading);
 
-    this.log("scene.userUpdate", `User moved to [${newPosition[0]}, ${newPosition[1]}]${action ? ` - ${action}` : ''}`);
+    this.log("scene.userUpdate", `User moved to [${newPosition[0]}, ${newPosition[1]}] facing ${this._sceneMemory.heading}°${action ? ` - ${action}` : ''}`);
     this.emit("sceneupdate", this._sceneMemory);
   }
 
   /**
    * Add or update an object in scene memory
+   * An observation with an id updates that object. Otherwise it is merged into
+   * the closest remembered object of the same category within
+   * `objectMatchRadius`, or added as a new object with a generated id
    *
-   * @param object - The scene object to add or update
+   * @param observation - The sighting to record
+   * @returns The stored object
    */
-  updateSceneObject(object: SceneObject) {
-    const existingIndex = this._sceneMemory.objects.findIndex(
-      obj => obj.name === object.name
-    );
+  updateSceneObject(observation: SceneObservation): SceneObject {
+    const { objects } = this._sceneMemory;
+    const existing = observation.id
+      ? objects.find(obj => obj.id === observation.id)
+      : findMatchingObject(objects, observation, this.objectMatchRadius);
+
+    if (observation.id && !existing) {
+      throw new Error(`no object with id "${observation.id}"`);
+    }
+
+    const object: SceneObject = {
+      ...existing,
+      ...observation,
+      id: existing ? existing.id : generateObjectId(observation.category, this.objectIds()),
+      label: observation.label || existing?.label || observation.category,
+      description: observation.description ?? existing?.description,
+      // seeing it again restores full confidence
+      confidence: observation.confidence ?? 1,
+      stale: false,
+      timestamp: Date.now()
+    };
 
-    if (existingIndex >= 0) {
+    if (existing) {
       // Update existing object
-      this._sceneMemory.objects[existingIndex] = {
-        ...object,
-        timestamp: Date.now()
-      };
+      objects[objects.indexOf(existing)] = object;
     } else {
       // Add new object
-      this._sceneMemory.objects.push({
-        ...object,
-        timestamp: Date.now()
-      });
+      objects.push(object);
+    }
+
+    this.log("scene.objectUpdate", `Object "${object.label}" (${object.id}) at [${object.position[0]}, ${object.position[1]}]`);
+    this.emit("sceneupdate", this._sceneMemory);
+    return object;
+  }
+
+  // ids of merged or removed objects, never handed out again in this scene
+  private retiredObjectIds = new Set<string>();
+
+  /**
+   * ids stay unique across history and removals too, so neither snapshots
+   * nor the model refer to a different object than the one with that id
+   */
+  private objectIds() {
+    const ids = new Set(this.retiredObjectIds);
+    this._sceneMemory.objects.forEach(obj => ids.add(obj.id));
+    this._sceneMemory.history.forEach(snapshot =>
+      [...(snapshot.objects || []), ...(snapshot.changed || [])].forEach(obj => ids.add(obj.id))
+    );
+    return ids;
+  }
+
+  private requireObject(id: string) {
+    const object = this._sceneMemory.objects.find(obj => obj.id === id);
+    if (!object) {
+      throw new Error(`no object with id "${id}"`);
+    }
+    return object;
+  }
+
+  /**
+   * Merge two entries that are really the same object
+   *
+   * @param keepId - The object that survives
+   * @param mergeId - The object folded into it and removed
+   */
+  mergeSceneObjects(keepId: string, mergeId: string): SceneObject {
+    if (keepId === mergeId) {
+      throw new Error("cannot merge an object with itself");
+    }
+    const keep = this.requireObject(keepId);
+    const other = this.requireObject(mergeId);
+    const merged = mergeObjects(keep, other);
+
+    this.retiredObjectIds.add(mergeId);
+    this._sceneMemory.objects = this._sceneMemory.objects
+      .filter(obj => obj !== other)
+      .map(obj => (obj === keep ? merged : obj));
+
+    this.log("scene.objectMerge", `Merged ${mergeId} into ${keepId}`);
+    this.emit("sceneupdate", this._sceneMemory);
+    return merged;
+  }
+
+  /**
+   * Split one entry that turned out to be several objects
+   * The original keeps its id and moves to the first position,
+   * every other position becomes a new object of the same category
+   *
+   * @param id - The object to split
+   * @param positions - Where each of the objects actually is
+   */
+  splitSceneObject(id: string, positions: Position[]): SceneObject[] {
+    if (positions.length < 2) {
+      throw new Error("splitting needs at least two positions");
+    }
+    const original = this.requireObject(id);
+    const taken = this.objectIds();
+    const parts = positions.map((position, i) => {
+      if (i === 0) {
+        return { ...original, position };
+      }
+      const partId = generateObjectId(original.category, taken);
+      taken.add(partId);
+      return { ...original, id: partId, label: `${original.label} ${i + 1}`, position };
+    });
+
+    const index = this._sceneMemory.objects.indexOf(original);
+    this._sceneMemory.objects.splice(index, 1, ...parts);
+
+    this.log("scene.objectSplit", `Split ${id} into ${parts.map(p => p.id).join(", ")}`);
+    this.emit("sceneupdate", this._sceneMemory);
+    return parts;
+  }
+
+  /**
+   * Remove an object, e.g. when it has been moved away
+   */
+  removeSceneObject(id: string): boolean {
+    const object = this._sceneMemory.objects.find(obj => obj.id === id);
+    if (!object) {
+      return false;
     }
+    this.retiredObjectIds.add(id);
+    this._sceneMemory.objects = this._sceneMemory.objects.filter(obj => obj !== object);
 
-    this.log("scene.objectUpdate", `Object "${object.name}" at [${object.position[0]}, ${object.position[1]}]`);
+    this.log("scene.objectRemove", `Removed ${object.label} (${id})`);
     this.emit("sceneupdate", this._sceneMemory);
+    return true;
   }
 
   /**
@@ -362,6 +838,8 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
    * @param goal - Target position or description
    */
   setNavigationGoal(goal: Position | string) {
+    // a new destination replaces a retrace in progress
+    this._retrace = null;
     if (typeof goal === 'string') {
       this._sceneMemory.goalDescription = goal;
     } else {
@@ -372,12 +850,154 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
     this.emit("sceneupdate", this._sceneMemory);
   }
 
+  /**
+   * Replace the navigation goal, dropping the description or position of
+   * the previous one when the new goal does not have it
+   *
+   * @param description - Where the user wants to go, in words
+   * @param position - Target position
+   */
+  replaceNavigationGoal(description?: string, position?: Position) {
+    this._retrace = null;
+    delete this._sceneMemory.goal;
+    delete this._sceneMemory.goalDescription;
+    if (description) {
+      this._sceneMemory.goalDescription = description;
+    }
+    if (position) {
+      this._sceneMemory.goal = position;
+    }
+
+    const coordinates = position ? `[${position[0]}, ${position[1]}]` : "";
+    this.log("scene.goalSet", [description, coordinates].filter(Boolean).join(" "));
+    this.emit("sceneupdate", this._sceneMemory);
+  }
+
+  /**
+   * Restore the user pose and objects to how they were at a point in history
+   * Snapshots from that point on are removed, so the restored state becomes
+   * the current one
+   *
+   * @param timestamp - Restores the latest snapshot taken at or before this time
+   * @returns false when history has no snapshot that old
+   */
+  rewindTo(timestamp: number): boolean {
+    const { history } = this._sceneMemory;
+    let index = -1;
+    history.forEach((snapshot, i) => {
+      if (snapshot.timestamp <= timestamp) {
+        index = i;
+      }
+    });
+    if (index < 0) {
+      return false;
+    }
+
+    const snapshot = history[index];
+    this._sceneMemory.user = [...snapshot.user];
+    this._sceneMemory.heading = snapshot.heading;
+    this._sceneMemory.objects = objectsAt(history, index);
+    this._sceneMemory.history = history.slice(0, index);
+    if (this._retrace) {
+      // undone retrace steps have to be walked again
+      this._retrace.stepsTaken -= history.length - index;
+      if (this._retrace.stepsTaken < 0) {
+        this._retrace = null;
+      }
+    }
+
+    this.log("scene.rewind", `Rewound to [${snapshot.user[0]}, ${snapshot.user[1]}]${snapshot.action ? `, undoing "${snapshot.action}"` : ""}`);
+    this.emit("sceneupdate", this._sceneMemory);
+    return true;
+  }
+
+  /**
+   * Undo the most recent user move, e.g. after a mis-reported step
+   *
+   * @returns false when there is nothing to undo
+   */
+  undoLastMove(): boolean {
+    const last = this._sceneMemory.history.at(-1);
+    return last ? this.rewindTo(last.timestamp) : false;
+  }
+
+  /**
+   * Start guiding the user back the way they came, e.g. to the door they
+   * entered by. The route inverts each move recorded in history and is
+   * offered as the Planned Route until the goal is reached or replaced
+   *
+   * @param timestamp - Return to the latest snapshot taken at or before this
+   *   time, defaults to where history starts
+   * @returns The route, or null when there is no such snapshot or the user
+   *   is already there
+   */
+  startRetrace(timestamp?: number): NavigationStep[] | null {
+    const { history, user, heading } = this._sceneMemory;
+    let index = timestamp === undefined && history.length ? 0 : -1;
+    if (timestamp !== undefined) {
+      history.forEach((snapshot, i) => {
+        if (snapshot.timestamp <= timestamp) {
+          index = i;
+        }
+      });
+    }
+    if (index < 0) {
+      return null;
+    }
+    const steps = retraceRoute(history, user, heading, index);
+    if (!steps.length) {
+      return null;
+    }
+
+    const target = history[index].user;
+    this._sceneMemory.goal = [...target];
+    this._sceneMemory.goalDescription = `go back the way you came to [${target[0]}, ${target[1]}]`;
+    this._retrace = { steps, stepsTaken: 0 };
+
+    this.log("scene.retrace", `Retracing ${steps.length} steps back to [${target[0]}, ${target[1]}]`);
+    this.emit("sceneupdate", this._sceneMemory);
+    return steps;
+  }
+
+  /**
+   * Mark the navigation goal as reached and clear it from scene memory
+   * Objects and history are kept so they can be reused for the next goal
+   */
+  completeNavigationGoal() {
+    const { goal, goalDescription } = this._sceneMemory;
+    delete this._sceneMemory.goal;
+    delete this._sceneMemory.goalDescription;
+    this._retrace = null;
+
+    this.log("scene.goalReached", goalDescription || (goal ? `[${goal[0]}, ${goal[1]}]` : "no goal set"));
+    this.emit("goalreached", goalDescription);
+    this.emit("sceneupdate", this._sceneMemory);
+  }
+
+  /**
+   * Drop the navigation goal without reaching it, e.g. when the user gives up
+   */
+  cancelNavigationGoal() {
+    const { goal, goalDescription } = this._sceneMemory;
+    delete this._sceneMemory.goal;
+    delete this._sceneMemory.goalDescription;
+    this._retrace = null;
+
+    this.log("scene.goalCancelled", goalDescription || (goal ? `[${goal[0]}, ${goal[1]}]` : "no goal set"));
+    this.emit("sceneupdate", this._sceneMemory);
+  }
+
   /**
    * Clear scene memory (useful for starting fresh navigation)
    */
   resetScene() {
+    // start a scratch scene so a saved room map is not overwritten
+    this._sceneName = "default";
+    this.retiredObjectIds.clear();
+    this._retrace = null;
     this._sceneMemory = {
       user: [0, 0],
+      heading: 0,
       objects: [],
       history: []
     };
@@ -386,30 +1006,279 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
     this.emit("sceneupdate", this._sceneMemory);
   }
 
+  private autoSaveScene() {
+    this.saveScene().catch((e) => {
+      this.log("scene.storeError", `autosave failed: ${e}`);
+    });
+  }
+
+  /**
+   * Save scene memory under a name such as "kitchen" or "office"
+   * The name becomes the active scene, so later updates are saved there too
+   *
+   * @param name - Scene name, defaults to the active scene
+   */
+  async saveScene(name: string = this._sceneName): Promise<boolean> {
+    if (!this.sceneStore) {
+      return false;
+    }
+    this._sceneName = name;
+    await this.sceneStore.save(name, this._sceneMemory);
+    return true;
+  }
+
+  /**
+   * Replace scene memory with a previously saved scene and make it active
+   *
+   * @param name - Scene name to load
+   * @returns false when no scene with that name exists
+   */
+  async loadScene(name: string): Promise<boolean> {
+    const stored = await this.sceneStore?.load(name);
+    if (!stored) {
+      return false;
+    }
+    // scenes saved by older versions are migrated like imported files
+    const scene = parseScene(stored);
+    this._sceneName = name;
+    this._sceneMemory = scene;
+    this.retiredObjectIds.clear();
+    this._retrace = null;
+
+    this.log("scene.load", `Loaded scene "${name}" with ${scene.objects.length} objects`);
+    this.emit("sceneupdate", this._sceneMemory);
+    return true;
+  }
+
+  /**
+   * Load the most recently saved scene, used to recover after a reload or crash
+   */
+  async restoreLastScene(): Promise<boolean> {
+    const [latest] = await this.listScenes();
+    return latest ? this.loadScene(latest.name) : false;
+  }
+
+  async listScenes(): Promise<SavedSceneSummary[]> {
+    return this.sceneStore ? this.sceneStore.list() : [];
+  }
+
+  /**
+   * Delete a saved scene, scene memory itself is left untouched
+   */
+  async deleteScene(name: string): Promise<boolean> {
+    if (!this.sceneStore) {
+      return false;
+    }
+    const deleted = await this.sceneStore.delete(name);
+    if (deleted) {
+      this.log("scene.delete", `Deleted scene "${name}"`);
+    }
+    return deleted;
+  }
+
+  /**
+   * Export scene memory as a versioned JSON document
+   */
+  exportScene(): string {
+    return serializeScene(this._sceneMemory);
+  }
+
+  /**
+   * Replace scene memory with an exported scene, older versions are migrated
+   * Throws with the offending field when the file is malformed, in which case
+   * scene memory is left unchanged
+   *
+   * @param file - JSON text or an already parsed object
+   */
+  importScene(file: string | unknown) {
+    this._sceneMemory = parseScene(file);
+    this.retiredObjectIds.clear();
+    this._retrace = null;
+
+    this.log("scene.import", `Imported scene with ${this._sceneMemory.objects.length} objects`);
+    this.emit("sceneupdate", this._sceneMemory);
+  }
+
+  /**
+   * Start recording every message sent and received, including camera frames
+   * and microphone audio, together with the current scene memory
+   * Restarting discards the recording in progress
+   */
+  startRecording() {
+    this.recorder = new SessionRecorder(
+      this._model,
+      this.config,
+      JSON.parse(this.exportScene())
+    );
+    this.log("client.recordStart", "Recording session");
+  }
+
+  /**
+   * Stop recording, returns null when no recording was in progress
+   * Save it with recordingToBlob
+   */
+  stopRecording(): SessionRecording | null {
+    const recorder = this.recorder;
+    this.recorder = null;
+    if (!recorder) {
+      return null;
+    }
+    this.log("client.recordStop", `Recorded ${recorder.size} messages`);
+    return recorder.toRecording();
+  }
+
+  /**
+   * Replay a recording without a connection: scene memory is restored to how
+   * it was when recording started, then received messages are fed through
+   * onmessage at their recorded timing, so captions, audio, tool handlers and
+   * the logger react as they did live. Sent messages are only logged.
+   *
+   * @param speed - Playback rate, 2 replays twice as fast
+   * @returns false if the replay was stopped before the end
+   */
+  async replay(recording: SessionRecording, speed = 1): Promise<boolean> {
+    if (this.session) {
+      throw new Error("cannot replay while connected");
+    }
+    const generation = ++this.replayGeneration;
+    this._replaying = true;
+    this.log("replay.start", `Replaying ${recording.entries.length} messages from ${recording.startedAt}`);
+    try {
+      if (recording.scene) {
+        this.importScene(recording.scene);
+      }
+      const start = Date.now();
+      for (const entry of recording.entries) {
+        const wait = entry.t / speed - (Date.now() - start);
+        if (wait > 0) {
+          await new Promise<void>((resolve) => {
+            const timeoutId = setTimeout(resolve, wait);
+            this.wakeReplay = () => {
+              clearTimeout(timeoutId);
+              resolve();
+            };
+          });
+          this.wakeReplay = null;
+        }
+        if (generation !== this.replayGeneration) {
+          return false;
+        }
+        if (entry.direction === "in") {
+          await this.onmessage(entry.payload as LiveServerMessage);
+        } else if (entry.type === "realtimeInput") {
+          // frames and audio chunks are too large to log in full
+          const { mimeType } = entry.payload as { mimeType: string };
+          this.log("replay.realtimeInput", mimeType);
+        } else {
+          this.log(`replay.${entry.type}`, entry.payload as StreamingLog["message"]);
+        }
+      }
+    } finally {
+      // a listener that throws must not leave the client stuck replaying,
+      // a replay stopped and started again already owns the flag
+      if (generation === this.replayGeneration) {
+        this._replaying = false;
+      }
+    }
+
+    this.log("replay.end", "Replay finished");
+    return true;
+  }
+
+  stopReplay() {
+    if (!this._replaying) {
+      return false;
+    }
+    this.replayGeneration++;
+    this._replaying = false;
+    this.wakeReplay?.();
+    this.log("replay.end", "Replay stopped");
+    return true;
+  }
+
+  /**
+   * Plan a route from the user to the goal position around remembered objects
+   * Returns null when no goal position is set or the goal cannot be reached
+   */
+  planRoute(): NavigationStep[] | null {
+    return planRoute(
+      { ...this._sceneMemory, objects: this.trustedObjects() },
+      this.plannerOptions
+    );
+  }
+
+  /**
+   * Objects whose confidence has not decayed below the drop threshold
+   */
+  private trustedObjects(now = Date.now()) {
+    const { halfLifeMs, dropThreshold } = this.staleness;
+    return this._sceneMemory.objects.filter(
+      obj => currentConfidence(obj, now, halfLifeMs) >= dropThreshold
+    );
+  }
+
+  /**
+   * Mark objects stale once their confidence decays below the stale threshold
+   * Emits sceneupdate when any object changed state
+   *
+   * @returns Whether any object changed
+   */
+  refreshStaleness(now = Date.now()): boolean {
+    const { halfLifeMs, staleThreshold } = this.staleness;
+    const changed: string[] = [];
+    this._sceneMemory.objects = this._sceneMemory.objects.map(obj => {
+      const stale = currentConfidence(obj, now, halfLifeMs) < staleThreshold;
+      if (stale === !!obj.stale) {
+        return obj;
+      }
+      changed.push(obj.id);
+      return { ...obj, stale };
+    });
+
+    if (!changed.length) {
+      return false;
+    }
+    this.log("scene.staleness", `Staleness changed for ${changed.join(", ")}`);
+    this.emit("sceneupdate", this._sceneMemory);
+    return true;
+  }
+
   /**
    * Generate scene context string for including in Gemini prompts
    * This provides the model with awareness of the scene state
    */
   getSceneContext(): string {
-    const { user, objects, goal, goalDescription } = this._sceneMemory;
+    const { user, heading, goal, goalDescription } = this._sceneMemory;
+    const now = Date.now();
+    const objects = this.trustedObjects(now);
+    const dropped = this._sceneMemory.objects.length - objects.length;
 
     let context = `\n--- SCENE MEMORY ---\n`;
     context += `User Position: [${user[0]}, ${user[1]}]\n`;
+    context += `User Heading: ${heading} degrees\n`;
 
     if (objects.length > 0) {
       context += `\nDetected Objects:\n`;
       objects.forEach(obj => {
-        const relativeX = obj.position[0] - user[0];
-        const relativeY = obj.position[1] - user[1];
-        context += `- ${obj.name} at [${obj.position[0]}, ${obj.position[1]}] (relative: [${relativeX}, ${relativeY}])`;
+        const clock = clockPosition(relativeBearing(user, heading, obj.position));
+        const distance = Math.round(distanceBetween(user, obj.position) * 10) / 10;
+        context += `- ${obj.label} [id: ${obj.id}] at [${obj.position[0]}, ${obj.position[1]}] (${clock} o'clock, ${distance} steps away)`;
         if (obj.description) {
           context += ` - ${obj.description}`;
         }
+        const confidence = currentConfidence(obj, now, this.staleness.halfLifeMs);
+        if (confidence < this.staleness.staleThreshold) {
+          const minutes = Math.round((now - (obj.timestamp ?? now)) / 60000);
+          context += ` [STALE: last seen ${minutes} min ago, confidence ${confidence.toFixed(2)}, may have moved]`;
+        }
         context += `\n`;
       });
     } else {
       context += `No objects detected yet.\n`;
     }
+    if (dropped > 0) {
+      context += `(${dropped} objects not seen for a long time are omitted)\n`;
+    }
 
     if (goal || goalDescription) {
       context += `\nNavigation Goal: `;
@@ -422,6 +1291,26 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
       context += `\n`;
     }
 
+    if (this._retrace) {
+      const { steps, stepsTaken } = this._retrace;
+      context += `\nRetrace Route (back the way the user came, ${Math.min(stepsTaken, steps.length)} of ${steps.length} steps done):\n`;
+      steps.slice(stepsTaken).forEach((step, i) => {
+        const [x, y] = step.expectedUserPosition!;
+        context += `${stepsTaken + i + 1}. ${step.instruction} (arrive at [${x}, ${y}])\n`;
+      });
+    } else if (goal) {
+      const route = this.planRoute();
+      if (route) {
+        context += `\nPlanned Route:\n`;
+        route.forEach((step, i) => {
+          const [x, y] = step.expectedUserPosition!;
+          context += `${i + 1}. ${step.instruction} (arrive at [${x}, ${y}])\n`;
+        });
+      } else {
+        context += `\nPlanned Route: no clear path to the goal\n`;
+      }
+    }
+
     context += `--- END SCENE MEMORY ---\n`;
 
     return context;
@@ -464,6 +1353,7 @@ export class GenAILiveClient extends EventEmitter<LiveClientEventTypes> {
       }
 
       this.session?.sendClientContent({ turns: partsToSend, turnComplete });
+      this.recorder?.record("out", "clientContent", { turns: partsToSend, turnComplete });
       console.log("[SEND] sendClientContent() called successfully");
       this.log(`client.send`, {
         turns: partsToSend,
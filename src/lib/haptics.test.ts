@@ -0,0 +1,81 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { GenAILiveClient } from "./genai-live-client";
+import { FakeHapticDevice, Haptics, HapticPattern, turnDirection } from "./haptics";
+import { NavigationController } from "./navigation-controller";
+import { ToolRegistry } from "./tool-registry";
+
+function setup() {
+  const client = new GenAILiveClient({ apiKey: "test" });
+  jest.spyOn(client, "send").mockImplementation(() => {});
+  const navigation = new NavigationController(client);
+  navigation.attach();
+  const device = new FakeHapticDevice();
+  const haptics = new Haptics(client, navigation, device);
+  haptics.attach();
+  const played: HapticPattern[] = [];
+  haptics.on("pattern", (name) => played.push(name));
+  return { client, navigation, device, haptics, played };
+}
+
+function reply(client: GenAILiveClient, text: string) {
+  client.emit("content", { modelTurn: { parts: [{ text }] } });
+  client.emit("turncomplete");
+}
+
+test("turns are read from step instructions", () => {
+  expect(turnDirection("Turn left and walk 3 steps.")).toBe("left");
+  expect(turnDirection("Take 2 steps, then bear slightly to your right.")).toBe("right");
+  expect(turnDirection("Take 2 steps to your left.")).toBeNull();
+});
+
+test("navigation progress and a dropped connection vibrate", () => {
+  const { client, navigation, device, played } = setup();
+
+  navigation.start("the door");
+  reply(client, "Step 1: Turn right. Step 2: Take 3 steps forward. You have arrived.");
+  navigation.confirmStep();
+  reply(client, "Good.");
+  navigation.confirmStep();
+  expect(played).toEqual(["turn-right", "step-complete", "arrived"]);
+  expect(device.vibrations[0]).toEqual([80, 120, 300]);
+
+  // error followed by close is one warning
+  client.emit("error", new ErrorEvent("error"));
+  client.emit("close", new CloseEvent("close"));
+  expect(played).toEqual(["turn-right", "step-complete", "arrived", "connection-lost"]);
+});
+
+test("the model warns of hazards through a tool", async () => {
+  const { client, device, haptics } = setup();
+  const tools = new ToolRegistry(client);
+  tools.register(haptics.tool());
+  const sendToolResponse = jest
+    .spyOn(client, "sendToolResponse")
+    .mockImplementation(() => {});
+
+  await tools.handleToolCall({
+    functionCalls: [{ id: "1", name: "warn_hazard", args: { hazard: "stairs going down" } }],
+  });
+  expect(device.vibrations).toEqual([[80, 60, 80, 60, 80]]);
+  expect(sendToolResponse).toHaveBeenCalledWith({
+    functionResponses: [{ id: "1", name: "warn_hazard", response: { output: "warned" } }],
+  });
+
+  haptics.enabled = false;
+  expect(haptics.play("hazard", Date.now() + 5000)).toBe(false);
+});
@@ -0,0 +1,210 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Type } from "@google/genai";
+import { EventEmitter } from "eventemitter3";
+import { NavigationStatus, NavigationStep } from "../types";
+import { GenAILiveClient } from "./genai-live-client";
+import { NavigationController } from "./navigation-controller";
+import { defineTool } from "./tool-registry";
+
+/**
+ * Vibration patterns, so hazards and navigation progress reach the user
+ * in loud streets and without taking up their hearing.
+ */
+export type HapticPattern =
+  | "hazard"
+  | "step-complete"
+  | "arrived"
+  | "connection-lost"
+  | "turn-left"
+  | "turn-right";
+
+/** milliseconds of vibration and pause, alternating */
+export const hapticPatterns: Record<HapticPattern, number[]> = {
+  // three sharp pulses
+  hazard: [80, 60, 80, 60, 80],
+  // one short tap
+  "step-complete": [50],
+  // two taps and a long buzz
+  arrived: [100, 80, 100, 80, 400],
+  // two long buzzes
+  "connection-lost": [500, 200, 500],
+  // long then short, left reads first
+  "turn-left": [300, 120, 80],
+  // short then long
+  "turn-right": [80, 120, 300],
+};
+
+// the same pattern again within this time is dropped, e.g. error then close
+const REPEAT_INTERVAL_MS = 1000;
+
+/**
+ * Something that can vibrate
+ */
+export interface HapticDevice {
+  vibrate(pattern: number[]): void;
+}
+
+/**
+ * the Vibration API, available on most Android browsers
+ */
+export class VibrationHapticDevice implements HapticDevice {
+  vibrate(pattern: number[]) {
+    navigator.vibrate(pattern);
+  }
+}
+
+/**
+ * for desktops and iOS, which have no Vibration API
+ */
+export class NoopHapticDevice implements HapticDevice {
+  vibrate() {}
+}
+
+/**
+ * records patterns instead of vibrating, used in tests
+ */
+export class FakeHapticDevice implements HapticDevice {
+  public vibrations: number[][] = [];
+
+  vibrate(pattern: number[]) {
+    this.vibrations.push(pattern);
+  }
+}
+
+export function defaultHapticDevice(): HapticDevice {
+  return typeof navigator !== "undefined" && "vibrate" in navigator
+    ? new VibrationHapticDevice()
+    : new NoopHapticDevice();
+}
+
+const TURN =
+  /\b(?:turn|bear|veer)\s+(?:slightly\s+|sharply\s+)?(?:to\s+(?:your|the)\s+)?(left|right)\b/i;
+
+/** which way a step tells the user to turn, if it does */
+export function turnDirection(instruction: string): "left" | "right" | null {
+  const match = instruction.match(TURN);
+  return match ? (match[1].toLowerCase() as "left" | "right") : null;
+}
+
+export interface HapticsEventTypes {
+  // Emitted for every pattern played, also when the device cannot vibrate
+  pattern: (name: HapticPattern) => void;
+}
+
+/**
+ * Plays patterns for navigation progress, hazards the model reports through
+ * tool() and the connection dropping
+ */
+export class Haptics extends EventEmitter<HapticsEventTypes> {
+  public enabled = true;
+
+  private lastPlayed: { name: HapticPattern; at: number } | null = null;
+
+  constructor(
+    private client: GenAILiveClient,
+    private navigation: NavigationController,
+    private device: HapticDevice = defaultHapticDevice()
+  ) {
+    super();
+    this.onConnectionLost = this.onConnectionLost.bind(this);
+    this.onStateChange = this.onStateChange.bind(this);
+    this.onStep = this.onStep.bind(this);
+    this.onArrived = this.onArrived.bind(this);
+  }
+
+  attach() {
+    this.detach();
+    this.client.on("close", this.onConnectionLost).on("error", this.onConnectionLost);
+    this.navigation
+      .on("statechange", this.onStateChange)
+      .on("step", this.onStep)
+      .on("arrived", this.onArrived);
+  }
+
+  detach() {
+    this.client.off("close", this.onConnectionLost).off("error", this.onConnectionLost);
+    this.navigation
+      .off("statechange", this.onStateChange)
+      .off("step", this.onStep)
+      .off("arrived", this.onArrived);
+  }
+
+  /**
+   * vibrate a pattern, false when disabled or it just played
+   */
+  play(name: HapticPattern, now = Date.now()) {
+    if (!this.enabled) {
+      return false;
+    }
+    const last = this.lastPlayed;
+    if (last && last.name === name && now - last.at < REPEAT_INTERVAL_MS) {
+      return false;
+    }
+    this.lastPlayed = { name, at: now };
+    this.device.vibrate(hapticPatterns[name]);
+    this.emit("pattern", name);
+    return true;
+  }
+
+  private onConnectionLost() {
+    this.play("connection-lost");
+  }
+
+  // confirming a step moves on to executing the next one
+  private onStateChange(status: NavigationStatus, previous: NavigationStatus) {
+    if (previous === "awaiting-step-confirmation" && status === "executing") {
+      this.play("step-complete");
+    }
+  }
+
+  private onStep(step: NavigationStep) {
+    const turn = turnDirection(step.instruction);
+    if (turn) {
+      this.play(turn === "left" ? "turn-left" : "turn-right");
+    }
+  }
+
+  private onArrived() {
+    this.play("arrived");
+  }
+
+  /**
+   * the warn_hazard tool, for the model to buzz the user about a hazard
+   */
+  tool() {
+    return defineTool<{ hazard: string }>({
+      name: "warn_hazard",
+      description:
+        "Vibrates the user's phone to warn of a hazard in their path, such as stairs, a curb, a low obstacle or traffic. Call it as soon as the hazard is seen, then describe it.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          hazard: {
+            type: Type.STRING,
+            description: "What the hazard is, e.g. 'stairs going down'.",
+          },
+        },
+        required: ["hazard"],
+      },
+      handler: () => {
+        this.play("hazard");
+        return { output: "warned" };
+      },
+    });
+  }
+}
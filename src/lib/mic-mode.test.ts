@@ -0,0 +1,27 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { micLive, useMicStore } from "./mic-mode";
+
+test("the microphone records by mode and is remembered", () => {
+  expect(micLive("always-on", false)).toBe(true);
+  expect(micLive("push-to-talk", false)).toBe(false);
+  expect(micLive("push-to-talk", true)).toBe(true);
+  expect(micLive("muted", true)).toBe(false);
+
+  useMicStore.getState().setMode("push-to-talk");
+  expect(JSON.parse(localStorage.getItem("lumex-mic")!).state.mode).toBe("push-to-talk");
+});
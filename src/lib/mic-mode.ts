@@ -0,0 +1,70 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+/**
+ * When the microphone records:
+ * - always-on: whenever connected
+ * - push-to-talk: only while space or the mic button is held
+ * - muted: never
+ */
+export type MicMode = "always-on" | "push-to-talk" | "muted";
+
+export const micModes: Record<MicMode, { label: string; announcement: string }> = {
+  "always-on": {
+    label: "Always on",
+    announcement: "Microphone on",
+  },
+  "push-to-talk": {
+    label: "Push to talk",
+    announcement: "Push to talk, hold space or the microphone button to speak",
+  },
+  muted: {
+    label: "Muted",
+    announcement: "Microphone muted",
+  },
+};
+
+export const MIC_MODES = Object.keys(micModes) as MicMode[];
+
+/**
+ * whether the microphone should be recording
+ *
+ * @param held - space or the mic button is held down
+ */
+export function micLive(mode: MicMode, held: boolean) {
+  return mode === "always-on" || (mode === "push-to-talk" && held);
+}
+
+interface MicStoreState {
+  mode: MicMode;
+  setMode: (mode: MicMode) => void;
+}
+
+/**
+ * The mic mode the user chose, kept across reloads
+ */
+export const useMicStore = create<MicStoreState>()(
+  persist(
+    (set) => ({
+      mode: "always-on",
+      setMode: (mode: MicMode) => set({ mode }),
+    }),
+    { name: "lumex-mic" }
+  )
+);
@@ -0,0 +1,57 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  defaultMicrophoneProcessing,
+  microphoneConstraints,
+  pickMicrophone,
+  useMicrophoneStore,
+} from "./microphone-selection";
+
+const builtIn = { deviceId: "default", label: "Default - Built-in", groupId: "a" };
+const headset = { deviceId: "headset", label: "Bluetooth Headset", groupId: "b" };
+const usb = { deviceId: "usb", label: "USB Microphone", groupId: "c" };
+
+test("the chosen microphone is used while plugged in, the default otherwise", () => {
+  expect(pickMicrophone([usb, builtIn, headset], "headset")).toBe(headset);
+  // unplugged
+  expect(pickMicrophone([usb, builtIn], "headset")).toBe(builtIn);
+  expect(pickMicrophone([usb], "headset")).toBe(usb);
+  expect(pickMicrophone([], "headset")).toBeNull();
+
+  const noProcessing = {
+    echoCancellation: false,
+    noiseSuppression: false,
+    autoGainControl: false,
+  };
+  expect(microphoneConstraints("headset", noProcessing)).toEqual({
+    deviceId: { exact: "headset" },
+    ...noProcessing,
+  });
+  expect(microphoneConstraints("default", defaultMicrophoneProcessing)).toEqual(
+    defaultMicrophoneProcessing
+  );
+});
+
+test("the chosen microphone and processing are persisted", () => {
+  const { setDeviceId, setProcessing } = useMicrophoneStore.getState();
+  setDeviceId("headset");
+  setProcessing({ noiseSuppression: false });
+  expect(JSON.parse(localStorage.getItem("lumex-microphone")!).state).toEqual({
+    deviceId: "headset",
+    processing: { ...defaultMicrophoneProcessing, noiseSuppression: false },
+  });
+});
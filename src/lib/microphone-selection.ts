@@ -0,0 +1,87 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { MicrophoneDevice } from "../hooks/use-microphone-devices";
+
+/**
+ * The browser's processing of microphone input. Bone-conduction and some
+ * Bluetooth headsets already clean up their signal and sound worse with it.
+ */
+export type MicrophoneProcessing = {
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+};
+
+export const defaultMicrophoneProcessing: MicrophoneProcessing = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+/**
+ * The microphone to use: the chosen one while it is plugged in, otherwise
+ * the system default, otherwise the first one
+ */
+export function pickMicrophone(
+  devices: MicrophoneDevice[],
+  preferredId: string | null
+): MicrophoneDevice | null {
+  return (
+    devices.find((d) => d.deviceId === preferredId) ||
+    devices.find((d) => d.deviceId === "default") ||
+    devices[0] ||
+    null
+  );
+}
+
+/**
+ * getUserMedia audio constraints for a device and processing settings,
+ * the "default" device follows the system setting so it is left open
+ */
+export function microphoneConstraints(
+  deviceId: string | null,
+  processing: MicrophoneProcessing
+): MediaTrackConstraints {
+  return deviceId && deviceId !== "default"
+    ? { deviceId: { exact: deviceId }, ...processing }
+    : { ...processing };
+}
+
+interface MicrophoneStoreState {
+  deviceId: string | null;
+  processing: MicrophoneProcessing;
+  setDeviceId: (deviceId: string | null) => void;
+  setProcessing: (processing: Partial<MicrophoneProcessing>) => void;
+}
+
+/**
+ * The microphone and processing the user chose, kept across reloads
+ */
+export const useMicrophoneStore = create<MicrophoneStoreState>()(
+  persist(
+    (set) => ({
+      deviceId: null,
+      processing: defaultMicrophoneProcessing,
+      setDeviceId: (deviceId: string | null) => set({ deviceId }),
+      setProcessing: (processing: Partial<MicrophoneProcessing>) =>
+        set((state) => ({ processing: { ...state.processing, ...processing } })),
+    }),
+    { name: "lumex-microphone" }
+  )
+);
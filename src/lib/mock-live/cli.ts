@@ -0,0 +1,42 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Runs the mock Live server with a fixture scenario:
+ *
+ *   npm run mock-live -- navigate-around-box 9090
+ *
+ * then start the app with REACT_APP_MOCK_LIVE_URL=http://localhost:9090
+ * The scenario is a fixture name from ./fixtures or a path to a JSON file.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { MockLiveServer } from "./mock-live-server";
+import { readScenario } from "./scenario";
+
+const [name = "navigate-around-box", port = "9090"] = process.argv.slice(2);
+const path = existsSync(name) ? name : join(__dirname, "fixtures", `${name}.json`);
+const scenario = readScenario(JSON.parse(readFileSync(path, "utf8")));
+
+const server = new MockLiveServer(scenario);
+server.start(Number(port)).then((url) => {
+  console.log(`mock Live server playing "${scenario.name}" at ${url}`);
+});
+
+process.on("SIGINT", () => {
+  server.stop().then(() => process.exit(0));
+});
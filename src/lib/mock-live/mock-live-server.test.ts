@@ -0,0 +1,130 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { EventEmitter } from "eventemitter3";
+import { GenAILiveClient } from "../genai-live-client";
+import { NavigationController } from "../navigation-controller";
+import { sceneTools } from "../scene-tools";
+import { ToolRegistry } from "../tool-registry";
+import { VoiceCommands } from "../voice-commands";
+import navigateAroundBox from "./fixtures/navigate-around-box.json";
+import voiceGuidedToDoor from "./fixtures/voice-guided-to-door.json";
+import { MockLiveServer } from "./mock-live-server";
+import { readScenario } from "./scenario";
+
+function nextEvent<
+  Events extends EventEmitter.ValidEventTypes,
+  Name extends EventEmitter.EventNames<Events>,
+>(emitter: EventEmitter<Events>, event: Name) {
+  return new Promise<EventEmitter.EventArgs<Events, Name>>((resolve) =>
+    emitter.once(event, ((...args: EventEmitter.EventArgs<Events, Name>) =>
+      resolve(args)) as EventEmitter.EventListener<Events, Name>)
+  );
+}
+
+let server: MockLiveServer;
+let client: GenAILiveClient;
+
+async function connectTo(fixture: unknown) {
+  server = new MockLiveServer(readScenario(fixture));
+  const url = await server.start();
+  client = new GenAILiveClient({
+    apiKey: "test",
+    mockServerUrl: url,
+    reconnect: false,
+  });
+  const setupComplete = nextEvent(client, "setupcomplete");
+  await client.connect("models/mock", {});
+  await setupComplete;
+}
+
+afterEach(async () => {
+  client.disconnect();
+  await server.stop();
+});
+
+test("a navigation flow replays from a fixture", async () => {
+  await connectTo(navigateAroundBox);
+  const tools = new ToolRegistry(client);
+  tools.register(...sceneTools(client));
+  tools.attach();
+  const audio = jest.fn();
+  client.on("audio", audio);
+  const navigation = new NavigationController(client);
+  navigation.attach();
+
+  let step = nextEvent(navigation, "step");
+  navigation.start("the other side of the box");
+  await step;
+  expect(client.sceneMemory.objects.map((o) => o.id)).toEqual(["box-1"]);
+  expect(client.sceneMemory.goal).toEqual([6, 0]);
+  expect(navigation.steps.map((s) => s.instruction)).toEqual([
+    "Take 2 steps to your right.",
+    "Take 4 steps forward.",
+    "Take 2 steps to your left and you have reached the other side.",
+  ]);
+  expect(audio).toHaveBeenCalledWith(expect.any(ArrayBuffer));
+
+  step = nextEvent(navigation, "step");
+  navigation.confirmStep([0, 2]);
+  expect((await step)[1]).toBe(1);
+
+  step = nextEvent(navigation, "step");
+  navigation.confirmStep([4, 2]);
+  expect((await step)[1]).toBe(2);
+
+  navigation.confirmStep([4, 0]);
+  expect(navigation.status).toBe("arrived");
+  expect(server.received.map((r) => r.kind)).toEqual([
+    "setup",
+    "clientContent",
+    "toolResponse",
+    "clientContent",
+    "clientContent",
+  ]);
+});
+
+test("voice commands and interruptions replay from a fixture", async () => {
+  // this scenario starts on setup, so listen before connecting
+  server = new MockLiveServer(readScenario(voiceGuidedToDoor));
+  const url = await server.start();
+  client = new GenAILiveClient({
+    apiKey: "test",
+    mockServerUrl: url,
+    reconnect: false,
+  });
+  const navigation = new NavigationController(client);
+  const commands = new VoiceCommands(client, navigation);
+  navigation.attach();
+  commands.attach();
+
+  const step = nextEvent(navigation, "step");
+  await client.connect("models/mock", {});
+  await step;
+
+  // the interrupted reply was dropped, the answer after it gave the step
+  expect(client.sceneMemory.goalDescription).toBe("door");
+  expect(navigation.steps).toEqual([
+    {
+      instruction:
+        "Turn right and take 3 steps forward and you have reached the door.",
+      isComplete: true,
+    },
+  ]);
+
+  commands.handleTranscript("done");
+  expect(navigation.status).toBe("arrived");
+});
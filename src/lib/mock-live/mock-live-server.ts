@@ -0,0 +1,183 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { AddressInfo } from "net";
+import { RawData, WebSocket, WebSocketServer } from "ws";
+import { ClientMessageKind, MockReply, MockScenario } from "./scenario";
+
+/**
+ * A local stand-in for the Gemini Live API, for offline development and tests.
+ * It speaks the subset of the Live protocol the app uses: it answers setup
+ * with setupComplete and plays a scripted scenario of model turns, PCM audio,
+ * transcriptions, tool calls, interruptions and turn boundaries.
+ *
+ * Runs in node only, point the client at it with the mockServerUrl option.
+ */
+
+const KINDS: ClientMessageKind[] = [
+  "setup",
+  "clientContent",
+  "realtimeInput",
+  "toolResponse",
+];
+
+export type ReceivedMessage = {
+  kind: ClientMessageKind;
+  message: Record<string, unknown>;
+};
+
+const SAMPLE_RATE = 24000;
+
+/** a deterministic sine tone as base64 16 bit little endian PCM */
+export function pcmTone(durationMs: number, frequency = 440) {
+  const samples = Math.round((SAMPLE_RATE * durationMs) / 1000);
+  const buffer = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const value = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * 0.2;
+    buffer.writeInt16LE(Math.round(value * 0x7fff), i * 2);
+  }
+  return buffer.toString("base64");
+}
+
+function serverMessage(reply: MockReply, nextCallId: () => string) {
+  if ("text" in reply) {
+    return { serverContent: { modelTurn: { parts: [{ text: reply.text }] } } };
+  }
+  if ("audio" in reply) {
+    const data = pcmTone(reply.audio.durationMs, reply.audio.frequency);
+    const inlineData = { mimeType: `audio/pcm;rate=${SAMPLE_RATE}`, data };
+    return { serverContent: { modelTurn: { parts: [{ inlineData }] } } };
+  }
+  if ("inputTranscription" in reply) {
+    const { inputTranscription: text, finished } = reply;
+    return { serverContent: { inputTranscription: { text, finished } } };
+  }
+  if ("outputTranscription" in reply) {
+    const { outputTranscription: text, finished } = reply;
+    return { serverContent: { outputTranscription: { text, finished } } };
+  }
+  if ("toolCall" in reply) {
+    const functionCalls = reply.toolCall.map((call) => ({
+      id: call.id ?? nextCallId(),
+      name: call.name,
+      args: call.args ?? {},
+    }));
+    return { toolCall: { functionCalls } };
+  }
+  if ("interrupted" in reply) {
+    return { serverContent: { interrupted: true } };
+  }
+  if ("turnComplete" in reply) {
+    return { serverContent: { turnComplete: true } };
+  }
+  return null;
+}
+
+export class MockLiveServer {
+  private server: WebSocketServer | null = null;
+
+  /**
+   * every message received from clients, in order
+   */
+  public received: ReceivedMessage[] = [];
+
+  constructor(public scenario: MockScenario) {}
+
+  /**
+   * @param port - Port to listen on, 0 picks a free one
+   * @returns The base url to pass as mockServerUrl
+   */
+  start(port = 0): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const server = new WebSocketServer({ port });
+      server.on("connection", (socket) => this.play(socket));
+      server.once("error", reject);
+      server.once("listening", () => {
+        const { port } = server.address() as AddressInfo;
+        resolve(`http://localhost:${port}`);
+      });
+      this.server = server;
+    });
+  }
+
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) {
+      return Promise.resolve();
+    }
+    server.clients.forEach((socket) => socket.terminate());
+    return new Promise((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * plays the scenario from the start for each connection, messages are
+   * handled one at a time so delays never reorder replies
+   */
+  private play(socket: WebSocket) {
+    let cursor = 0;
+    let callCount = 0;
+    let queue = Promise.resolve();
+    const nextCallId = () => `call-${++callCount}`;
+
+    const send = (message: object) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    };
+
+    const handle = async (kind: ClientMessageKind, raw: string) => {
+      if (kind === "setup") {
+        send({ setupComplete: {} });
+      }
+      const exchange = this.scenario.exchanges[cursor];
+      if (
+        !exchange ||
+        exchange.on !== kind ||
+        (exchange.match && !raw.includes(exchange.match))
+      ) {
+        return;
+      }
+      cursor++;
+      for (const reply of exchange.replies) {
+        if ("delayMs" in reply) {
+          await new Promise((resolve) => setTimeout(resolve, reply.delayMs));
+          continue;
+        }
+        const message = serverMessage(reply, nextCallId);
+        if (message) {
+          send(message);
+        }
+      }
+    };
+
+    socket.on("message", (data: RawData) => {
+      const raw = data.toString();
+      let message: Record<string, unknown>;
+      try {
+        message = JSON.parse(raw);
+      } catch {
+        return;
+      }
+      const kind = KINDS.find((k) => k in message);
+      if (!kind) {
+        return;
+      }
+      this.received.push({ kind, message });
+      queue = queue.then(() => handle(kind, raw));
+    });
+  }
+}
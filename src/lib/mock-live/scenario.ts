@@ -0,0 +1,169 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Scripted Live sessions for the mock server.
+ *
+ * A scenario is a list of exchanges played in order. Each exchange waits for
+ * a client message of the given kind, optionally containing some text, then
+ * sends its replies. Client messages that do not match the next exchange,
+ * such as the stream of camera frames, are ignored, so a scenario replays
+ * the same way every time.
+ */
+
+export type ClientMessageKind =
+  | "setup"
+  | "clientContent"
+  | "realtimeInput"
+  | "toolResponse";
+
+export type MockReply =
+  | { text: string } // a modelTurn text part
+  | { audio: { durationMs: number; frequency?: number } } // a modelTurn PCM tone
+  | { inputTranscription: string; finished?: boolean }
+  | { outputTranscription: string; finished?: boolean }
+  | {
+      toolCall: {
+        id?: string;
+        name: string;
+        args?: Record<string, unknown>;
+      }[];
+    }
+  | { interrupted: true }
+  | { turnComplete: true }
+  | { delayMs: number }; // wait before the next reply
+
+export type MockExchange = {
+  on: ClientMessageKind;
+  // only match client messages whose JSON contains this text
+  match?: string;
+  replies: MockReply[];
+};
+
+export type MockScenario = {
+  name: string;
+  description?: string;
+  exchanges: MockExchange[];
+};
+
+const KINDS: ClientMessageKind[] = [
+  "setup",
+  "clientContent",
+  "realtimeInput",
+  "toolResponse",
+];
+
+const REPLY_KEYS = [
+  "text",
+  "audio",
+  "inputTranscription",
+  "outputTranscription",
+  "toolCall",
+  "interrupted",
+  "turnComplete",
+  "delayMs",
+];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function fail(path: string, problem: string): never {
+  throw new Error(`invalid scenario: ${path} ${problem}`);
+}
+
+function readReply(value: unknown, path: string): MockReply {
+  if (!isObject(value)) {
+    fail(path, "must be an object");
+  }
+  const key = REPLY_KEYS.find((k) => k in value);
+  if (!key) {
+    fail(path, `must have one of ${REPLY_KEYS.join(", ")}`);
+  }
+  switch (key) {
+    case "text":
+    case "inputTranscription":
+    case "outputTranscription":
+      if (typeof value[key] !== "string") {
+        fail(`${path}.${key}`, "must be a string");
+      }
+      break;
+    case "audio":
+      if (!isObject(value.audio) || typeof value.audio.durationMs !== "number") {
+        fail(`${path}.audio.durationMs`, "must be a number");
+      }
+      break;
+    case "toolCall":
+      if (!Array.isArray(value.toolCall)) {
+        fail(`${path}.toolCall`, "must be an array");
+      }
+      value.toolCall.forEach((call, i) => {
+        if (!isObject(call) || typeof call.name !== "string") {
+          fail(`${path}.toolCall[${i}].name`, "must be a string");
+        }
+      });
+      break;
+    case "delayMs":
+      if (typeof value.delayMs !== "number") {
+        fail(`${path}.delayMs`, "must be a number");
+      }
+      break;
+  }
+  return value as MockReply;
+}
+
+/**
+ * validates a parsed fixture file, naming the offending field on failure
+ */
+export function readScenario(value: unknown): MockScenario {
+  if (!isObject(value)) {
+    fail("scenario", "must be an object");
+  }
+  if (typeof value.name !== "string") {
+    fail("name", "must be a string");
+  }
+  if (!Array.isArray(value.exchanges)) {
+    fail("exchanges", "must be an array");
+  }
+  const exchanges = value.exchanges.map((exchange, i): MockExchange => {
+    const path = `exchanges[${i}]`;
+    if (!isObject(exchange)) {
+      fail(path, "must be an object");
+    }
+    if (!KINDS.includes(exchange.on as ClientMessageKind)) {
+      fail(`${path}.on`, `must be one of ${KINDS.join(", ")}`);
+    }
+    if (exchange.match !== undefined && typeof exchange.match !== "string") {
+      fail(`${path}.match`, "must be a string");
+    }
+    if (!Array.isArray(exchange.replies)) {
+      fail(`${path}.replies`, "must be an array");
+    }
+    return {
+      on: exchange.on as ClientMessageKind,
+      match: exchange.match as string | undefined,
+      replies: exchange.replies.map((reply, j) =>
+        readReply(reply, `${path}.replies[${j}]`)
+      ),
+    };
+  });
+  return {
+    name: value.name,
+    description:
+      typeof value.description === "string" ? value.description : undefined,
+    exchanges,
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { GenAILiveClient } from "./genai-live-client";
+import {
+  NavigationController,
+  parseNavigationSteps,
+} from "./navigation-controller";
+
+function reply(client: GenAILiveClient, text: string) {
+  client.emit("content", { modelTurn: { parts: [{ text }] } });
+  client.emit("turncomplete");
+}
+
+test("numbered replies are parsed into steps", () => {
+  const steps = parseNavigationSteps(
+    "I can see a box ahead. Step 1: Take 2 steps to your right. Step 2: Take 4 steps forward. Step 3: Take 2 steps to your left. You have now reached the other side."
+  );
+  expect(steps.map((s) => s.instruction)).toEqual([
+    "Take 2 steps to your right.",
+    "Take 4 steps forward.",
+    "Take 2 steps to your left.",
+  ]);
+  expect(steps.map((s) => s.isComplete)).toEqual([false, false, true]);
+  expect(steps[0].nextStep).toBe("Take 4 steps forward.");
+
+  expect(parseNavigationSteps("Great. Now turn left and walk 3 steps.")).toEqual([
+    { instruction: "Now turn left and walk 3 steps.", isComplete: false },
+  ]);
+  expect(parseNavigationSteps("Which door do you mean?")).toEqual([]);
+});
+
+test("the controller walks through its states", () => {
+  const client = new GenAILiveClient({ apiKey: "test" });
+  const send = jest.spyOn(client, "send").mockImplementation(() => {});
+  const navigation = new NavigationController(client);
+  navigation.attach();
+  const states: string[] = [];
+  navigation.on("statechange", (status) => states.push(status));
+  const arrived = jest.fn();
+  navigation.on("arrived", arrived);
+
+  navigation.start("the door");
+  expect(navigation.status).toBe("planning");
+  expect(client.sceneMemory.goalDescription).toBe("the door");
+
+  reply(client, "Step 1: Take 2 steps forward. Step 2: Turn right.");
+  expect(navigation.getState()).toMatchObject({
+    status: "awaiting-step-confirmation",
+    awaitingUserConfirmation: true,
+    currentStep: 0,
+  });
+  expect(navigation.steps).toHaveLength(2);
+
+  navigation.confirmStep([2, 0]);
+  expect(navigation.status).toBe("executing");
+  expect(client.sceneMemory.user).toEqual([2, 0]);
+  expect(send).toHaveBeenLastCalledWith(
+    [{ text: "I completed that step. What's next?" }],
+    true,
+    true
+  );
+
+  // a short acknowledgement keeps the known route
+  reply(client, "Well done.");
+  expect(navigation.status).toBe("awaiting-step-confirmation");
+  expect(navigation.currentStep).toBe(1);
+  navigation.confirmStep();
+
+  reply(client, "You have arrived at the door.");
+  expect(navigation.status).toBe("arrived");
+  expect(arrived).toHaveBeenCalledWith("the door");
+  expect(client.sceneMemory.goalDescription).toBeUndefined();
+  expect(states).toEqual([
+    "planning",
+    "awaiting-step-confirmation",
+    "executing",
+    "awaiting-step-confirmation",
+    "executing",
+    "arrived",
+  ]);
+
+  navigation.start("the window");
+  navigation.abort();
+  expect(navigation.status).toBe("aborted");
+  expect(client.sceneMemory.goalDescription).toBeUndefined();
+  expect(() => navigation.confirmStep()).toThrow("cannot confirm");
+});
+
+test("a retrace moves to its next step without waiting for a reply", () => {
+  const client = new GenAILiveClient({ apiKey: "test" });
+  jest.spyOn(client, "send").mockImplementation(() => {});
+  const navigation = new NavigationController(client);
+  navigation.attach();
+  const states: string[] = [];
+  navigation.on("statechange", (status) => states.push(status));
+  client.updateUserPosition([0, 2], "moved 2 steps right");
+  client.updateUserPose([3, 2], 0, "walked 3 steps forward");
+
+  expect(navigation.retrace()).toBe(true);
+  expect(navigation.currentStep).toBe(0);
+  navigation.confirmStep();
+
+  // no model reply arrived, audio without transcription has no text
+  expect(navigation.status).toBe("awaiting-step-confirmation");
+  expect(navigation.currentStep).toBe(1);
+  expect(client.sceneMemory.user).toEqual([0, 2]);
+
+  // a late reply does not move it on again
+  reply(client, "Now move 2 steps left.");
+  expect(navigation.currentStep).toBe(1);
+  navigation.confirmStep();
+  expect(navigation.status).toBe("arrived");
+  expect(states).toEqual([
+    "awaiting-step-confirmation",
+    "executing",
+    "awaiting-step-confirmation",
+    "arrived",
+  ]);
+});
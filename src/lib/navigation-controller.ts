@@ -0,0 +1,369 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LiveServerContent } from "@google/genai";
+import { EventEmitter } from "eventemitter3";
+import {
+  NavigationState,
+  NavigationStatus,
+  NavigationStep,
+  Position,
+} from "../types";
+import { GenAILiveClient } from "./genai-live-client";
+
+// "Step 2: Take 4 steps forward." or "2. Take 4 steps forward"
+const NUMBERED_STEP = /(?:^|\s)(?:step\s*(\d+)\s*[:.)-]|(\d+)[.)])\s+/gi;
+const MOVEMENT = /\b(take|turn|walk|move|step|go|continue|keep|stop|face|head)\b/i;
+const ARRIVAL =
+  /\b(you(?:'ve| have)? (?:now )?(?:arrived|reached)|you(?:'re| are) (?:now )?(?:there|at (?:the|your) (?:goal|destination))|(?:reached|arrived at) (?:the|your) (?:goal|destination))/i;
+
+function sentences(text: string) {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+/** true when a model reply says the user has reached the goal */
+export function mentionsArrival(text: string) {
+  return ARRIVAL.test(text);
+}
+
+/**
+ * Parses a model reply into navigation steps.
+ * Numbered steps ("Step 1: ..." or "1. ...") become one step each, otherwise
+ * the sentences that tell the user to move become a single step.
+ * When the reply also says the user arrives, the last step completes the route.
+ */
+export function parseNavigationSteps(text: string): NavigationStep[] {
+  const markers = Array.from(text.matchAll(NUMBERED_STEP));
+  let instructions: string[];
+
+  if (markers.length) {
+    instructions = markers.map((marker, i) => {
+      const start = marker.index! + marker[0].length;
+      const end = markers[i + 1]?.index ?? text.length;
+      // text after the last step that is not an instruction, e.g. "You have arrived."
+      return sentences(text.slice(start, end))
+        .filter((s, j) => j === 0 || !mentionsArrival(s))
+        .join(" ");
+    });
+  } else {
+    const moves = sentences(text).filter(
+      (s) => MOVEMENT.test(s) && !mentionsArrival(s) && !s.endsWith("?")
+    );
+    instructions = moves.length ? [moves.join(" ")] : [];
+  }
+
+  instructions = instructions.filter(Boolean);
+  const arrives = mentionsArrival(text);
+  return instructions.map((instruction, i) => ({
+    instruction,
+    isComplete: arrives && i === instructions.length - 1,
+    nextStep: instructions[i + 1],
+  }));
+}
+
+/**
+ * Event types that can be emitted by the NavigationController.
+ */
+export interface NavigationControllerEventTypes {
+  // Emitted on every status transition
+  statechange: (status: NavigationStatus, previous: NavigationStatus) => void;
+  // Emitted when the list of steps is replaced or extended
+  steps: (steps: NavigationStep[]) => void;
+  // Emitted when a step is given to the user and awaits confirmation
+  step: (step: NavigationStep, index: number) => void;
+  // Emitted when the user reaches the goal
+  arrived: (goalDescription?: string) => void;
+  // Emitted when navigation stops before the goal is reached
+  aborted: (reason: string) => void;
+}
+
+/**
+ * Drives a navigation session through explicit states:
+ *
+ *   idle -> planning -> awaiting-step-confirmation <-> executing -> arrived
+ *
+ * any active state can move to aborted. The model's replies are parsed into
+ * steps, the user confirms each step before the next one is requested.
+ */
+export class NavigationController extends EventEmitter<NavigationControllerEventTypes> {
+  private _status: NavigationStatus = "idle";
+  public get status() {
+    return this._status;
+  }
+
+  private _steps: NavigationStep[] = [];
+  public get steps() {
+    return this._steps;
+  }
+
+  private _currentStep = 0;
+  public get currentStep() {
+    return this._currentStep;
+  }
+
+  public get active() {
+    return (
+      this._status === "planning" ||
+      this._status === "awaiting-step-confirmation" ||
+      this._status === "executing"
+    );
+  }
+
+  // text of the model turn in progress, parsed when the turn completes
+  // with audio responses it comes from the output transcription
+  private replyText = "";
+
+  // retrace routes come from scene history, replies only narrate them
+  private plannedLocally = false;
+
+  constructor(private client: GenAILiveClient) {
+    super();
+    this.onContent = this.onContent.bind(this);
+    this.onTurnComplete = this.onTurnComplete.bind(this);
+    this.onInterrupted = this.onInterrupted.bind(this);
+    this.onOutputTranscription = this.onOutputTranscription.bind(this);
+    this.onGoalReached = this.onGoalReached.bind(this);
+    this.onReconnectFailed = this.onReconnectFailed.bind(this);
+  }
+
+  /**
+   * starts listening to the client for model replies and goal events
+   */
+  attach() {
+    this.detach();
+    this.client
+      .on("content", this.onContent)
+      .on("turncomplete", this.onTurnComplete)
+      .on("interrupted", this.onInterrupted)
+      .on("outputtranscription", this.onOutputTranscription)
+      .on("goalreached", this.onGoalReached)
+      .on("reconnectfailed", this.onReconnectFailed);
+  }
+
+  detach() {
+    this.client
+      .off("content", this.onContent)
+      .off("turncomplete", this.onTurnComplete)
+      .off("interrupted", this.onInterrupted)
+      .off("outputtranscription", this.onOutputTranscription)
+      .off("goalreached", this.onGoalReached)
+      .off("reconnectfailed", this.onReconnectFailed);
+  }
+
+  /**
+   * the navigation part of NavigationState, the scene comes from the client
+   */
+  getState(): Omit<NavigationState, "scene"> {
+    return {
+      status: this._status,
+      active: this.active,
+      currentStep: this._currentStep,
+      steps: this._steps,
+      awaitingUserConfirmation: this._status === "awaiting-step-confirmation",
+    };
+  }
+
+  private setStatus(status: NavigationStatus) {
+    const previous = this._status;
+    if (previous === status) {
+      return;
+    }
+    this._status = status;
+    this.emit("statechange", status, previous);
+  }
+
+  private setSteps(steps: NavigationStep[]) {
+    this._steps = steps;
+    this.emit("steps", steps);
+  }
+
+  private awaitConfirmation() {
+    this.setStatus("awaiting-step-confirmation");
+    this.emit("step", this._steps[this._currentStep], this._currentStep);
+  }
+
+  private reset(steps: NavigationStep[] = [], plannedLocally = false) {
+    this.replyText = "";
+    this.plannedLocally = plannedLocally;
+    this._currentStep = 0;
+    this.setSteps(steps);
+  }
+
+  /**
+   * Start navigating to a goal and ask the model for the first instructions
+   *
+   * @param goal - Description such as "the door", or a target position
+   */
+  start(goal: string | Position) {
+    this.client.setNavigationGoal(goal);
+    this.reset();
+    this.setStatus("planning");
+
+    const description = typeof goal === "string" ? goal : `[${goal[0]}, ${goal[1]}]`;
+    const query = `I need to navigate: ${description}. What objects do you see and what should I do first?`;
+    this.client.send([{ text: query }], true, true);
+  }
+
+  /**
+   * Guide the user back the way they came, the steps are known up front
+   *
+   * @param timestamp - See GenAILiveClient.startRetrace
+   * @returns false when there is nothing to retrace
+   */
+  retrace(timestamp?: number): boolean {
+    const steps = this.client.startRetrace(timestamp);
+    if (!steps) {
+      return false;
+    }
+    this.reset(steps, true);
+    this.awaitConfirmation();
+
+    const query = "Take me back the way I came. Tell me the first step.";
+    this.client.send([{ text: query }], true, true);
+    return true;
+  }
+
+  /**
+   * The user finished the current step. Scene memory is moved to the step's
+   * expected position, or the given one, and the next step is requested.
+   * Confirming the final step ends navigation.
+   *
+   * @param position - Where the user actually is, if known
+   * @param action - What the user did, defaults to the step's instruction
+   */
+  confirmStep(position?: Position, action?: string) {
+    if (this._status !== "awaiting-step-confirmation") {
+      throw new Error(`cannot confirm a step while ${this._status}`);
+    }
+    const step = this._steps[this._currentStep];
+    const newPosition = position ?? step.expectedUserPosition;
+    if (newPosition) {
+      this.client.updateUserPosition(newPosition, action ?? step.instruction);
+    }
+
+    this._currentStep++;
+    if (step.isComplete) {
+      this.arrive(true);
+      return;
+    }
+    this.replyText = "";
+    this.setStatus("executing");
+    this.client.send([{ text: "I completed that step. What's next?" }], true, true);
+    if (this.plannedLocally) {
+      // the next step is known, the reply only narrates it and may carry
+      // no text at all, e.g. audio without transcription
+      this.awaitConfirmation();
+    }
+  }
+
+  /**
+   * End navigation at the goal, e.g. when the user says they are there
+   */
+  complete() {
+    if (this.active) {
+      this.arrive(true);
+    }
+  }
+
+  /**
+   * Stop navigating before the goal is reached
+   */
+  abort(reason = "cancelled") {
+    if (!this.active) {
+      return;
+    }
+    this.client.cancelNavigationGoal();
+    this.replyText = "";
+    this.setStatus("aborted");
+    this.emit("aborted", reason);
+  }
+
+  private arrive(notifyClient: boolean) {
+    const { goalDescription } = this.client.sceneMemory;
+    this.replyText = "";
+    this.setStatus("arrived");
+    this.emit("arrived", goalDescription);
+    if (notifyClient) {
+      this.client.completeNavigationGoal();
+    }
+  }
+
+  /**
+   * Apply a complete model reply, called when a model turn ends
+   * Replies that give no steps leave the state unchanged, e.g. when the
+   * model asks the user a question first
+   */
+  handleReply(text: string) {
+    if (this._status !== "planning" && this._status !== "executing") {
+      return;
+    }
+    const steps = this.plannedLocally ? [] : parseNavigationSteps(text);
+    if (!steps.length) {
+      if (mentionsArrival(text) && !this.plannedLocally) {
+        this.arrive(true);
+      } else if (this._status === "executing" && this._currentStep < this._steps.length) {
+        // the model acknowledged without new instructions, keep the known route
+        this.awaitConfirmation();
+      }
+      return;
+    }
+
+    // new instructions replace the steps that were not done yet
+    this.setSteps([...this._steps.slice(0, this._currentStep), ...steps]);
+    this.awaitConfirmation();
+  }
+
+  private onContent(content: LiveServerContent) {
+    const text = content.modelTurn?.parts
+      ?.map((part) => part.text || "")
+      .join("");
+    if (text) {
+      this.replyText += text;
+    }
+  }
+
+  private onOutputTranscription(text: string, finished: boolean) {
+    if (finished) {
+      this.replyText += text;
+    }
+  }
+
+  private onTurnComplete() {
+    const text = this.replyText;
+    this.replyText = "";
+    if (text) {
+      this.handleReply(text);
+    }
+  }
+
+  private onInterrupted() {
+    this.replyText = "";
+  }
+
+  // the model ended navigation through the mark_goal_reached tool
+  private onGoalReached() {
+    if (this.active) {
+      this.arrive(false);
+    }
+  }
+
+  private onReconnectFailed() {
+    this.abort("connection lost");
+  }
+}
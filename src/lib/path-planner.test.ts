@@ -0,0 +1,112 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SceneMemory, SceneObject } from "../types";
+import { buildOccupancyGrid, planRoute } from "./path-planner";
+
+const object = (category: string, x: number, y: number): SceneObject => ({
+  id: `${category}-1`,
+  category,
+  label: category,
+  position: [x, y],
+});
+
+const scene = (overrides: Partial<SceneMemory>): SceneMemory => ({
+  user: [0, 0],
+  heading: 0,
+  objects: [],
+  history: [],
+  ...overrides,
+});
+
+test("walks straight to an unobstructed goal", () => {
+  const steps = planRoute(scene({ goal: [4, 0] }));
+  expect(steps).toEqual([
+    {
+      instruction: "Take 4 steps forward",
+      expectedUserPosition: [4, 0],
+      isComplete: true,
+      nextStep: undefined,
+    },
+  ]);
+});
+
+test("routes around a box and ends at the goal", () => {
+  const steps = planRoute(
+    scene({ goal: [6, 0], objects: [object("box", 3, 0)] })
+  )!;
+  expect(steps.length).toBeGreaterThan(1);
+  expect(steps.at(-1)!.expectedUserPosition).toEqual([6, 0]);
+  expect(steps.at(-1)!.isComplete).toBe(true);
+  expect(steps.slice(0, -1).every((s) => !s.isComplete)).toBe(true);
+  expect(steps.some((s) => /Turn 90 degrees/.test(s.instruction))).toBe(true);
+});
+
+test("turns from the user's current heading", () => {
+  const steps = planRoute(scene({ heading: 90, goal: [0, -3] }))!;
+  expect(steps.map((s) => s.instruction)).toEqual([
+    "Turn around, then take 3 steps forward",
+  ]);
+});
+
+test("respects per-object footprints", () => {
+  const grid = buildOccupancyGrid(
+    scene({ objects: [object("table", 3, 0)] }),
+    { footprints: { table: 2 } }
+  );
+  const isBlocked = (x: number, y: number) =>
+    grid.blocked[(x - grid.origin[0]) * grid.height + (y - grid.origin[1])];
+  expect(isBlocked(3, 2)).toBe(true);
+  expect(isBlocked(1, 0)).toBe(true);
+  expect(isBlocked(3, 3)).toBe(false);
+});
+
+test("returns null when there is no goal or it is unreachable", () => {
+  expect(planRoute(scene({}))).toBeNull();
+  const walls = [-2, -1, 0, 1, 2].flatMap((y) => [
+    { ...object("wall", -1, y), id: `wall-w${y}` },
+    { ...object("wall", 1, y), id: `wall-e${y}` },
+    { ...object("wall", y, -1), id: `wall-s${y}` },
+    { ...object("wall", y, 1), id: `wall-n${y}` },
+  ]);
+  expect(
+    planRoute(scene({ goal: [6, 0], objects: walls }), { defaultFootprint: 0 })
+  ).toBeNull();
+});
+
+test("stops beside a goal inside an object's footprint", () => {
+  const steps = planRoute(
+    scene({ goal: [3, 0], objects: [object("chair", 3, 0)] })
+  )!;
+  expect(steps).not.toBeNull();
+  const end = steps.at(-1)!;
+  expect(end.isComplete).toBe(true);
+  const [x, y] = end.expectedUserPosition!;
+  expect(Math.hypot(x - 3, y)).toBeGreaterThan(0);
+  expect(Math.hypot(x - 3, y)).toBeLessThanOrEqual(2);
+});
+
+test("plans long routes quickly and gives up past its limits", () => {
+  const started = Date.now();
+  const steps = planRoute(
+    scene({ goal: [500, 0], objects: [object("box", 250, 0)] })
+  )!;
+  expect(steps.at(-1)!.expectedUserPosition).toEqual([500, 0]);
+  expect(Date.now() - started).toBeLessThan(2000);
+
+  expect(planRoute(scene({ goal: [500, 0] }), { maxExpanded: 100 })).toBeNull();
+  expect(planRoute(scene({ goal: [300, 300] }))).toBeNull();
+});
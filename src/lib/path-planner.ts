@@ -0,0 +1,393 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { NavigationStep, Position, SceneMemory, SceneObject } from "../types";
+import { normalizeAngle, signedAngle } from "./spatial";
+
+export type PlannerOptions = {
+  // radius in steps blocked around each object, keyed by object id or category
+  footprints?: Record<string, number>;
+  // radius used for objects without an entry in footprints
+  defaultFootprint?: number;
+  // free cells added around the bounding box of user, goal and objects
+  padding?: number;
+  // extra cost for changing direction, keeps routes to few turns
+  turnPenalty?: number;
+  // larger grids are not searched, planning gives up and returns null
+  maxCells?: number;
+  // search states expanded before planning gives up and returns null
+  maxExpanded?: number;
+};
+
+// planning runs synchronously with every scene context, so it is bounded
+const DEFAULT_MAX_CELLS = 40000;
+const DEFAULT_MAX_EXPANDED = 50000;
+
+export type OccupancyGrid = {
+  origin: Position; // scene coordinates of cell [0, 0]
+  width: number; // cells along x (forward)
+  height: number; // cells along y (right)
+  blocked: boolean[]; // row major, index = x * height + y
+};
+
+// clockwise from forward, index * 90 is the heading in degrees
+const DIRECTIONS: Position[] = [
+  [1, 0], // forward
+  [0, 1], // right
+  [-1, 0], // backward
+  [0, -1], // left
+];
+
+function cellOf(grid: OccupancyGrid, position: Position): Position {
+  return [
+    Math.round(position[0]) - grid.origin[0],
+    Math.round(position[1]) - grid.origin[1],
+  ];
+}
+
+function inGrid(grid: OccupancyGrid, [x, y]: Position) {
+  return x >= 0 && y >= 0 && x < grid.width && y < grid.height;
+}
+
+function footprintOf(object: SceneObject, options: PlannerOptions) {
+  return (
+    options.footprints?.[object.id] ??
+    options.footprints?.[object.category] ??
+    options.defaultFootprint ??
+    1
+  );
+}
+
+/**
+ * the cells covering user, goal and objects with padding, not yet rasterised
+ */
+function gridBounds(scene: SceneMemory, options: PlannerOptions): OccupancyGrid {
+  const padding = options.padding ?? 2;
+  const points: Position[] = [scene.user, ...scene.objects.map((o) => o.position)];
+  if (scene.goal) {
+    points.push(scene.goal);
+  }
+  const maxFootprint = Math.max(
+    0,
+    ...scene.objects.map((o) => Math.ceil(footprintOf(o, options)))
+  );
+  const margin = padding + maxFootprint;
+  const xs = points.map((p) => Math.round(p[0]));
+  const ys = points.map((p) => Math.round(p[1]));
+  const origin: Position = [Math.min(...xs) - margin, Math.min(...ys) - margin];
+
+  return {
+    origin,
+    width: Math.max(...xs) + margin - origin[0] + 1,
+    height: Math.max(...ys) + margin - origin[1] + 1,
+    blocked: [],
+  };
+}
+
+/**
+ * rasterises the scene objects into a grid of one-step cells,
+ * every cell within an object's footprint radius is blocked
+ */
+export function buildOccupancyGrid(
+  scene: SceneMemory,
+  options: PlannerOptions = {}
+): OccupancyGrid {
+  const grid = gridBounds(scene, options);
+  grid.blocked = new Array(grid.width * grid.height).fill(false);
+
+  scene.objects.forEach((object) => {
+    const radius = footprintOf(object, options);
+    const reach = Math.ceil(radius);
+    const [cx, cy] = cellOf(grid, object.position);
+    for (let dx = -reach; dx <= reach; dx++) {
+      for (let dy = -reach; dy <= reach; dy++) {
+        const cell: Position = [cx + dx, cy + dy];
+        if (dx * dx + dy * dy <= radius * radius && inGrid(grid, cell)) {
+          grid.blocked[cell[0] * grid.height + cell[1]] = true;
+        }
+      }
+    }
+  });
+
+  return grid;
+}
+
+type SearchNode = {
+  cell: Position;
+  direction: number;
+  g: number;
+  h: number;
+  f: number;
+  parent?: SearchNode;
+};
+
+// lowest f first, among equal f the node closest to the goal
+const before = (a: SearchNode, b: SearchNode) =>
+  a.f < b.f || (a.f === b.f && a.h < b.h);
+
+/**
+ * binary heap of search nodes, the A* open list
+ */
+class OpenList {
+  private nodes: SearchNode[] = [];
+
+  get size() {
+    return this.nodes.length;
+  }
+
+  push(node: SearchNode) {
+    const nodes = this.nodes;
+    nodes.push(node);
+    let i = nodes.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!before(nodes[i], nodes[parent])) {
+        break;
+      }
+      [nodes[i], nodes[parent]] = [nodes[parent], nodes[i]];
+      i = parent;
+    }
+  }
+
+  pop(): SearchNode | undefined {
+    const nodes = this.nodes;
+    const top = nodes[0];
+    const last = nodes.pop();
+    if (nodes.length && last) {
+      nodes[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < nodes.length && before(nodes[left], nodes[smallest])) {
+          smallest = left;
+        }
+        if (right < nodes.length && before(nodes[right], nodes[smallest])) {
+          smallest = right;
+        }
+        if (smallest === i) {
+          break;
+        }
+        [nodes[i], nodes[smallest]] = [nodes[smallest], nodes[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * A* over (cell, direction) states so that turns can carry a cost,
+ * returns the list of cells from start to goal or null when unreachable
+ * or when maxExpanded states were expanded without reaching it
+ */
+function findPath(
+  grid: OccupancyGrid,
+  start: Position,
+  goal: Position,
+  startDirection: number,
+  turnPenalty: number,
+  maxExpanded: number
+): Position[] | null {
+  const key = (cell: Position, direction: number) =>
+    (cell[0] * grid.height + cell[1]) * 4 + direction;
+  const heuristic = ([x, y]: Position) =>
+    Math.abs(goal[0] - x) + Math.abs(goal[1] - y);
+
+  const open = new OpenList();
+  const h = heuristic(start);
+  open.push({ cell: start, direction: startDirection, g: 0, h, f: h });
+  const best = new Map<number, number>([[key(start, startDirection), 0]]);
+  const closed = new Set<number>();
+
+  while (open.size) {
+    const node = open.pop()!;
+    const nodeKey = key(node.cell, node.direction);
+    if (closed.has(nodeKey)) {
+      continue;
+    }
+    closed.add(nodeKey);
+    if (closed.size > maxExpanded) {
+      return null;
+    }
+
+    if (node.cell[0] === goal[0] && node.cell[1] === goal[1]) {
+      const path: Position[] = [];
+      for (let n: SearchNode | undefined = node; n; n = n.parent) {
+        path.unshift(n.cell);
+      }
+      return path;
+    }
+
+    DIRECTIONS.forEach(([dx, dy], direction) => {
+      const cell: Position = [node.cell[0] + dx, node.cell[1] + dy];
+      if (!inGrid(grid, cell) || grid.blocked[cell[0] * grid.height + cell[1]]) {
+        return;
+      }
+      const g = node.g + 1 + (direction !== node.direction ? turnPenalty : 0);
+      const cellKey = key(cell, direction);
+      if (g >= (best.get(cellKey) ?? Infinity)) {
+        return;
+      }
+      best.set(cellKey, g);
+      const h = heuristic(cell);
+      open.push({ cell, direction, g, h, f: g + h, parent: node });
+    });
+  }
+
+  return null;
+}
+
+/**
+ * the free cell nearest to a blocked goal, e.g. beside the chair the user
+ * asked for, ties go to the cell closer to the user
+ */
+function nearestFreeCell(
+  grid: OccupancyGrid,
+  goal: Position,
+  start: Position
+): Position | null {
+  let nearest: Position | null = null;
+  let nearestDistance = Infinity;
+  let nearestToStart = Infinity;
+  const reach = Math.max(grid.width, grid.height);
+  for (let radius = 1; radius <= reach && !nearest; radius++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      for (let dy = -radius; dy <= radius; dy++) {
+        if (Math.max(Math.abs(dx), Math.abs(dy)) !== radius) {
+          continue;
+        }
+        const cell: Position = [goal[0] + dx, goal[1] + dy];
+        if (!inGrid(grid, cell) || grid.blocked[cell[0] * grid.height + cell[1]]) {
+          continue;
+        }
+        const distance = Math.hypot(dx, dy);
+        const toStart = Math.hypot(cell[0] - start[0], cell[1] - start[1]);
+        if (
+          distance < nearestDistance ||
+          (distance === nearestDistance && toStart < nearestToStart)
+        ) {
+          nearest = cell;
+          nearestDistance = distance;
+          nearestToStart = toStart;
+        }
+      }
+    }
+  }
+  return nearest;
+}
+
+/** turn between two headings in degrees */
+function turnInstruction(from: number, to: number) {
+  const turn = Math.round(signedAngle(to - from));
+  if (turn === 0) {
+    return "";
+  }
+  if (Math.abs(turn) === 180) {
+    return "Turn around";
+  }
+  return `Turn ${Math.abs(turn)} degrees ${turn > 0 ? "right" : "left"}`;
+}
+
+function walkInstruction(steps: number) {
+  return `take ${steps} ${steps === 1 ? "step" : "steps"} forward`;
+}
+
+/**
+ * Plans a route from the user to the goal around remembered objects.
+ * Each returned step is one straight segment, prefixed with the turn needed
+ * to face it from the user's current heading.
+ * A goal inside an object's footprint, such as the door or chair itself,
+ * is approached to the nearest free cell beside it.
+ * Returns null when the scene has no reachable goal position, or when the
+ * scene is too large to plan within maxCells and maxExpanded.
+ */
+export function planRoute(
+  scene: SceneMemory,
+  options: PlannerOptions = {}
+): NavigationStep[] | null {
+  if (!scene.goal) {
+    return null;
+  }
+  const bounds = gridBounds(scene, options);
+  if (bounds.width * bounds.height > (options.maxCells ?? DEFAULT_MAX_CELLS)) {
+    return null;
+  }
+  const grid = buildOccupancyGrid(scene, options);
+  const start = cellOf(grid, scene.user);
+  let goal = cellOf(grid, scene.goal);
+
+  // the user may be standing inside a footprint, never trap them there
+  grid.blocked[start[0] * grid.height + start[1]] = false;
+  if (grid.blocked[goal[0] * grid.height + goal[1]]) {
+    const beside = nearestFreeCell(grid, goal, start);
+    if (!beside) {
+      return null;
+    }
+    goal = beside;
+  }
+
+  // search from the grid direction closest to where the user faces
+  const startDirection = Math.round(normalizeAngle(scene.heading) / 90) % 4;
+  const path = findPath(
+    grid,
+    start,
+    goal,
+    startDirection,
+    options.turnPenalty ?? 0.5,
+    options.maxExpanded ?? DEFAULT_MAX_EXPANDED
+  );
+  if (!path) {
+    return null;
+  }
+
+  // collapse the cell path into straight segments
+  const segments: { direction: number; length: number; end: Position }[] = [];
+  for (let i = 1; i < path.length; i++) {
+    const direction = DIRECTIONS.findIndex(
+      ([dx, dy]) =>
+        path[i][0] - path[i - 1][0] === dx && path[i][1] - path[i - 1][1] === dy
+    );
+    const last = segments.at(-1);
+    if (last && last.direction === direction) {
+      last.length++;
+      last.end = path[i];
+    } else {
+      segments.push({ direction, length: 1, end: path[i] });
+    }
+  }
+
+  let heading = scene.heading;
+  const instructions = segments.map(({ direction, length }) => {
+    const turn = turnInstruction(heading, direction * 90);
+    heading = direction * 90;
+    const walk = walkInstruction(length);
+    return turn
+      ? `${turn}, then ${walk}`
+      : walk.charAt(0).toUpperCase() + walk.slice(1);
+  });
+
+  return segments.map(({ end }, i) => ({
+    instruction: instructions[i],
+    expectedUserPosition: [
+      end[0] + grid.origin[0],
+      end[1] + grid.origin[1],
+    ] as Position,
+    isComplete: i === segments.length - 1,
+    nextStep: instructions[i + 1],
+  }));
+}
@@ -0,0 +1,50 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  backoffDelay,
+  defaultReconnectPolicy,
+  resolveReconnectPolicy,
+} from "./reconnect-policy";
+
+test("overrides merge over the defaults and false switches reconnecting off", () => {
+  expect(resolveReconnectPolicy()).toEqual(defaultReconnectPolicy);
+  expect(resolveReconnectPolicy({ maxAttempts: 2 })).toEqual({
+    ...defaultReconnectPolicy,
+    maxAttempts: 2,
+  });
+  expect(resolveReconnectPolicy(false)).toBeNull();
+});
+
+test.each([
+  [0, 500],
+  [1, 1000],
+  [3, 4000],
+  [5, 15000],
+  [20, 15000],
+])("attempt %i without jitter waits %ims", (attempt, delay) => {
+  const policy = { ...defaultReconnectPolicy, jitter: 0 };
+  expect(backoffDelay(policy, attempt)).toBe(delay);
+});
+
+test("jitter spreads the delay below the backoff", () => {
+  const policy = { ...defaultReconnectPolicy, jitter: 0.5 };
+  expect(backoffDelay(policy, 1, () => 0)).toBe(500);
+  expect(backoffDelay(policy, 1, () => 0.5)).toBe(750);
+  expect(backoffDelay(policy, 1, () => 1)).toBe(1000);
+  // out of range jitter is clamped
+  expect(backoffDelay({ ...policy, jitter: 2 }, 1, () => 0)).toBe(0);
+});
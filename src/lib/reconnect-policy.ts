@@ -0,0 +1,56 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ReconnectPolicy } from "../types";
+
+export const defaultReconnectPolicy: ReconnectPolicy = {
+  maxAttempts: 8,
+  initialDelayMs: 500,
+  maxDelayMs: 15000,
+  multiplier: 2,
+  jitter: 0.5,
+  resumeSession: true,
+};
+
+/**
+ * merges user supplied overrides over the defaults,
+ * returns null when reconnection has been switched off
+ */
+export function resolveReconnectPolicy(
+  policy?: Partial<ReconnectPolicy> | false
+): ReconnectPolicy | null {
+  if (policy === false) {
+    return null;
+  }
+  return { ...defaultReconnectPolicy, ...policy };
+}
+
+/**
+ * exponential backoff with jitter
+ * attempt is zero based, so attempt 0 waits roughly `initialDelayMs`
+ */
+export function backoffDelay(
+  policy: ReconnectPolicy,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  const base = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * Math.pow(policy.multiplier, attempt)
+  );
+  const jitter = Math.min(1, Math.max(0, policy.jitter));
+  return Math.round(base * (1 - jitter) + base * jitter * random());
+}
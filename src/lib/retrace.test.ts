@@ -0,0 +1,57 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { GenAILiveClient } from "./genai-live-client";
+import { invertAction } from "./retrace";
+
+test("actions are inverted word for word", () => {
+  expect(invertAction("moved 2 steps right")).toBe("Move 2 steps left");
+  expect(invertAction("Walked 3 steps forward")).toBe("Walk 3 steps backward");
+  expect(invertAction("turned left")).toBe("Turn right");
+  expect(invertAction("stood still")).toBeUndefined();
+});
+
+test("retrace leads back through history and tracks progress", () => {
+  const client = new GenAILiveClient({ apiKey: "test" });
+  client.updateUserPosition([0, 2], "moved 2 steps right");
+  client.updateUserPose([0, 2], 90, "turned right");
+  client.updateUserPose([3, 2], 90, "walked to the shelf");
+
+  const steps = client.startRetrace()!;
+  expect(steps.map((s) => s.instruction)).toEqual([
+    "Take 3 steps right",
+    "Turn left",
+    "Move 2 steps left",
+  ]);
+  expect(steps.map((s) => s.expectedUserPosition)).toEqual([
+    [0, 2],
+    [0, 2],
+    [0, 0],
+  ]);
+  expect(steps[2].isComplete).toBe(true);
+  expect(client.sceneMemory.goal).toEqual([0, 0]);
+
+  client.updateUserPosition([0, 2], "moved 3 steps right");
+  expect(client.retrace!.stepsTaken).toBe(1);
+  expect(client.getSceneContext()).toContain("2. Turn left");
+  expect(client.getSceneContext()).not.toContain("1. Take 3 steps right");
+
+  client.undoLastMove();
+  expect(client.retrace!.stepsTaken).toBe(0);
+
+  client.completeNavigationGoal();
+  expect(client.retrace).toBeNull();
+});
@@ -0,0 +1,167 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { NavigationStep, Position, SceneSnapshot } from "../types";
+import { signedAngle } from "./spatial";
+
+const OPPOSITES: Record<string, string> = {
+  left: "right",
+  right: "left",
+  forward: "backward",
+  forwards: "backwards",
+  backward: "forward",
+  backwards: "forwards",
+  back: "forward",
+  ahead: "back",
+  clockwise: "counterclockwise",
+  counterclockwise: "clockwise",
+};
+
+// past tense as recorded in history, turned into an instruction
+const IMPERATIVES: Record<string, string> = {
+  moved: "move",
+  walked: "walk",
+  stepped: "step",
+  took: "take",
+  turned: "turn",
+  went: "go",
+};
+
+function matchCase(word: string, replacement: string) {
+  return word[0] === word[0].toUpperCase()
+    ? replacement.charAt(0).toUpperCase() + replacement.slice(1)
+    : replacement;
+}
+
+/**
+ * inverts a recorded action, e.g. "moved 2 steps right" becomes
+ * "move 2 steps left", returns undefined when the action names no direction
+ */
+export function invertAction(action: string): string | undefined {
+  let inverted = false;
+  const result = action.replace(/[a-z]+/gi, (word) => {
+    const lower = word.toLowerCase();
+    if (OPPOSITES[lower]) {
+      inverted = true;
+      return matchCase(word, OPPOSITES[lower]);
+    }
+    if (lower === "around") {
+      inverted = true;
+    }
+    return IMPERATIVES[lower] ? matchCase(word, IMPERATIVES[lower]) : word;
+  });
+  return inverted ? result.charAt(0).toUpperCase() + result.slice(1) : undefined;
+}
+
+function round(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+function stepsPhrase(steps: number, direction: string) {
+  return `${steps} ${steps === 1 ? "step" : "steps"} ${direction}`;
+}
+
+/**
+ * describes how to get from one pose back to an earlier one without
+ * turning first: the move is split into forward and sideways steps
+ * relative to where the user faces, then any turn is undone
+ */
+function poseInstruction(
+  from: Position,
+  heading: number,
+  to: Position,
+  toHeading: number
+) {
+  const dx = to[0] - from[0];
+  const dy = to[1] - from[1];
+  const radians = (heading * Math.PI) / 180;
+  const forward = round(dx * Math.cos(radians) + dy * Math.sin(radians));
+  const right = round(dy * Math.cos(radians) - dx * Math.sin(radians));
+
+  const parts: string[] = [];
+  if (forward) {
+    parts.push(stepsPhrase(Math.abs(forward), forward > 0 ? "forward" : "back"));
+  }
+  if (right) {
+    parts.push(stepsPhrase(Math.abs(right), right > 0 ? "right" : "left"));
+  }
+  let instruction = parts.length ? `Take ${parts.join(" and ")}` : "";
+
+  const turn = Math.round(signedAngle(toHeading - heading));
+  if (turn) {
+    const turnText =
+      Math.abs(turn) === 180
+        ? "turn around"
+        : `turn ${Math.abs(turn)} degrees ${turn > 0 ? "right" : "left"}`;
+    instruction = instruction
+      ? `${instruction}, then ${turnText}`
+      : turnText.charAt(0).toUpperCase() + turnText.slice(1);
+  }
+  return instruction;
+}
+
+/**
+ * Builds the route back through scene history, newest move first.
+ * Each history snapshot holds the pose before a move, so walking the
+ * snapshots backwards from the current pose undoes one move per step.
+ * A recorded action is inverted word for word when the move was only a
+ * walk or only a turn, otherwise the step is described from the poses.
+ *
+ * @param history - Scene history, oldest first
+ * @param user - Current user position
+ * @param heading - Current user heading
+ * @param toIndex - Index of the snapshot to return to, 0 is where history starts
+ */
+export function retraceRoute(
+  history: SceneSnapshot[],
+  user: Position,
+  heading: number,
+  toIndex = 0
+): NavigationStep[] {
+  const instructions: { instruction: string; position: Position }[] = [];
+  let position = user;
+  let facing = heading;
+
+  for (let i = history.length - 1; i >= Math.max(0, toIndex); i--) {
+    const snapshot = history[i];
+    const moved =
+      round(position[0] - snapshot.user[0]) !== 0 ||
+      round(position[1] - snapshot.user[1]) !== 0;
+    const turned = Math.round(signedAngle(facing - snapshot.heading)) !== 0;
+
+    if (moved || turned) {
+      const inverted =
+        snapshot.action && moved !== turned
+          ? invertAction(snapshot.action)
+          : undefined;
+      instructions.push({
+        instruction:
+          inverted ||
+          poseInstruction(position, facing, snapshot.user, snapshot.heading),
+        position: [...snapshot.user],
+      });
+    }
+    position = snapshot.user;
+    facing = snapshot.heading;
+  }
+
+  return instructions.map(({ instruction, position }, i) => ({
+    instruction,
+    expectedUserPosition: position,
+    isComplete: i === instructions.length - 1,
+    nextStep: instructions[i + 1]?.instruction,
+  }));
+}
@@ -0,0 +1,106 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SceneMemory } from "../types";
+import { parseScene, SCENE_FORMAT_VERSION, serializeScene } from "./scene-format";
+
+const scene: SceneMemory = {
+  user: [2, 0],
+  heading: 90,
+  objects: [
+    {
+      id: "box-1",
+      category: "box",
+      label: "box",
+      position: [3, 0],
+      description: "cardboard box",
+      timestamp: 10,
+    },
+  ],
+  goal: [6, 0],
+  goalDescription: "other side of the box",
+  history: [
+    {
+      timestamp: 5,
+      user: [0, 0],
+      heading: 0,
+      objects: [],
+      action: "moved 2 steps forward",
+    },
+  ],
+};
+
+test("round trips through the current version", () => {
+  const json = serializeScene(scene);
+  expect(JSON.parse(json).version).toBe(SCENE_FORMAT_VERSION);
+  expect(parseScene(json)).toEqual(scene);
+});
+
+test("migrates a bare version 1 scene dump", () => {
+  const legacy = {
+    user: [2, 0],
+    objects: [
+      { name: "box", position: [3, 0], description: "cardboard box", timestamp: 10 },
+    ],
+    goal: [6, 0],
+    goalDescription: "other side of the box",
+    history: [
+      {
+        timestamp: 5,
+        user: [0, 0],
+        objects: [{ name: "box", position: [3, 0] }],
+        action: "moved 2 steps forward",
+      },
+    ],
+  };
+  const migrated = parseScene(JSON.stringify(legacy));
+  expect(migrated).toEqual({
+    ...scene,
+    heading: 0,
+    history: [
+      {
+        ...scene.history[0],
+        objects: [{ id: "box-1", category: "box", label: "box", position: [3, 0] }],
+      },
+    ],
+  });
+});
+
+test.each([
+  [{ ...scene, user: [1] }, /scene.user must be an \[x, y\] pair/],
+  [
+    { ...scene, objects: [{ ...scene.objects[0], position: [1, "2"] }] },
+    /scene.objects\[0\].position\[1\] must be a finite number/,
+  ],
+  [
+    {
+      ...scene,
+      objects: [
+        { id: "chair-1", category: "chair", label: "chair", position: [1, 1] },
+        { id: "chair-1", category: "chair", label: "chair", position: [2, 2] },
+      ],
+    },
+    /scene.objects\[1\].id duplicates "chair-1"/,
+  ],
+])("rejects malformed scenes", (bad, message) => {
+  expect(() => parseScene(bad)).toThrow(message);
+});
+
+test("rejects files from a newer version", () => {
+  const file = JSON.parse(serializeScene(scene));
+  file.version = SCENE_FORMAT_VERSION + 1;
+  expect(() => parseScene(file)).toThrow(/newer than the supported version/);
+});
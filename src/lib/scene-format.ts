@@ -0,0 +1,340 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Position, SceneMemory, SceneObject, SceneSnapshot } from "../types";
+import { generateObjectId } from "./scene-objects";
+import { compressHistory, SceneState } from "./scene-history";
+import { normalizeAngle } from "./spatial";
+
+/**
+ * Versioned JSON format for sharing scene maps, test fixtures and bug reports.
+ *
+ * version 1: a bare SceneMemory, as dumped from `window.lumaNav.getScene()`
+ * version 2: SceneMemory wrapped in an envelope with format and version
+ * version 3: adds the user heading to the scene and to history snapshots
+ * version 4: objects are identified by a generated id with a category and
+ *            label instead of by name
+ * version 5: history is a keyframe followed by per-snapshot object diffs
+ */
+export const SCENE_FORMAT = "lumex-scene";
+export const SCENE_FORMAT_VERSION = 5;
+
+export type SceneFile = {
+  format: typeof SCENE_FORMAT;
+  version: number;
+  exportedAt: string;
+  scene: SceneMemory;
+};
+
+type Migration = (file: Record<string, unknown>) => Record<string, unknown>;
+
+// migrations[n] upgrades a version n file to version n + 1
+const migrations: Record<number, Migration> = {
+  1: (scene) => ({
+    format: SCENE_FORMAT,
+    version: 2,
+    exportedAt: new Date(0).toISOString(),
+    scene,
+  }),
+  // version 2 had no heading, the user was assumed to face forward.
+  // Existing headings are kept so unversioned scenes from a SceneStore migrate too
+  2: (file) => {
+    const scene = isRecord(file.scene) ? file.scene : {};
+    const history = Array.isArray(scene.history) ? scene.history : [];
+    return {
+      ...file,
+      version: 3,
+      scene: {
+        ...scene,
+        heading: scene.heading ?? 0,
+        history: history.map((snapshot) =>
+          isRecord(snapshot)
+            ? { ...snapshot, heading: snapshot.heading ?? 0 }
+            : snapshot
+        ),
+      },
+    };
+  },
+  // objects were keyed by name, the same name in history is the same object
+  3: (file) => {
+    const scene = isRecord(file.scene) ? file.scene : {};
+    const ids = new Map<unknown, string>();
+    const taken = new Set<string>();
+    const upgrade = (objects: unknown) =>
+      Array.isArray(objects)
+        ? objects.map((object) => {
+            if (!isRecord(object) || typeof object.name !== "string") {
+              return object;
+            }
+            const { name, ...rest } = object;
+            if (!ids.has(name)) {
+              const id = generateObjectId(name, taken);
+              taken.add(id);
+              ids.set(name, id);
+            }
+            return { ...rest, id: ids.get(name), category: name, label: name };
+          })
+        : objects;
+    const history = Array.isArray(scene.history) ? scene.history : [];
+    return {
+      ...file,
+      version: 4,
+      scene: {
+        ...scene,
+        objects: upgrade(scene.objects),
+        history: history.map((snapshot) =>
+          isRecord(snapshot)
+            ? { ...snapshot, objects: upgrade(snapshot.objects) }
+            : snapshot
+        ),
+      },
+    };
+  },
+  // every snapshot held a full copy of the objects
+  4: (file) => {
+    const scene = isRecord(file.scene) ? file.scene : {};
+    const history = scene.history;
+    const isFull =
+      Array.isArray(history) &&
+      history.every(
+        (snapshot) =>
+          isRecord(snapshot) &&
+          Array.isArray(snapshot.objects) &&
+          snapshot.objects.every(isRecord)
+      );
+    return {
+      ...file,
+      version: 5,
+      scene: {
+        ...scene,
+        // anything malformed is left as is and rejected by validation
+        history: isFull
+          ? compressHistory(history as unknown as SceneState[])
+          : history,
+      },
+    };
+  },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function fail(path: string, problem: string): never {
+  throw new Error(`invalid scene file: ${path} ${problem}`);
+}
+
+function readPosition(value: unknown, path: string): Position {
+  if (!Array.isArray(value) || value.length !== 2) {
+    fail(path, "must be an [x, y] pair");
+  }
+  value.forEach((coordinate, i) => {
+    if (typeof coordinate !== "number" || !Number.isFinite(coordinate)) {
+      fail(`${path}[${i}]`, `must be a finite number, got ${JSON.stringify(coordinate)}`);
+    }
+  });
+  return [value[0], value[1]];
+}
+
+function readHeading(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    fail(path, "must be a number of degrees");
+  }
+  return normalizeAngle(value);
+}
+
+function readOptional<T>(
+  record: Record<string, unknown>,
+  key: string,
+  type: "string" | "number" | "boolean",
+  path: string
+): T | undefined {
+  const value = record[key];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== type || (type === "number" && !Number.isFinite(value))) {
+    fail(`${path}.${key}`, `must be a ${type}`);
+  }
+  return value as T;
+}
+
+function readObjects(value: unknown, path: string): SceneObject[] {
+  if (!Array.isArray(value)) {
+    fail(path, "must be an array");
+  }
+  const ids = new Set<string>();
+  return value.map((item, i) => {
+    const itemPath = `${path}[${i}]`;
+    if (!isRecord(item)) {
+      fail(itemPath, "must be an object");
+    }
+    const [id, category, label] = ["id", "category", "label"].map((key) => {
+      const text = item[key];
+      if (typeof text !== "string" || !text.trim()) {
+        fail(`${itemPath}.${key}`, "must be a non-empty string");
+      }
+      return text;
+    });
+    if (ids.has(id)) {
+      fail(`${itemPath}.id`, `duplicates "${id}"`);
+    }
+    ids.add(id);
+
+    const object: SceneObject = {
+      id,
+      category,
+      label,
+      position: readPosition(item.position, `${itemPath}.position`),
+    };
+    const description = readOptional<string>(item, "description", "string", itemPath);
+    const timestamp = readOptional<number>(item, "timestamp", "number", itemPath);
+    const confidence = readOptional<number>(item, "confidence", "number", itemPath);
+    const stale = readOptional<boolean>(item, "stale", "boolean", itemPath);
+    if (description !== undefined) {
+      object.description = description;
+    }
+    if (timestamp !== undefined) {
+      object.timestamp = timestamp;
+    }
+    if (confidence !== undefined) {
+      if (confidence < 0 || confidence > 1) {
+        fail(`${itemPath}.confidence`, "must be between 0 and 1");
+      }
+      object.confidence = confidence;
+    }
+    if (stale !== undefined) {
+      object.stale = stale;
+    }
+    return object;
+  });
+}
+
+function readHistory(value: unknown, path: string): SceneSnapshot[] {
+  if (!Array.isArray(value)) {
+    fail(path, "must be an array");
+  }
+  return value.map((item, i) => {
+    const itemPath = `${path}[${i}]`;
+    if (!isRecord(item)) {
+      fail(itemPath, "must be an object");
+    }
+    const timestamp = readOptional<number>(item, "timestamp", "number", itemPath);
+    if (timestamp === undefined) {
+      fail(`${itemPath}.timestamp`, "is required");
+    }
+    const snapshot: SceneSnapshot = {
+      timestamp,
+      user: readPosition(item.user, `${itemPath}.user`),
+      heading: readHeading(item.heading, `${itemPath}.heading`),
+    };
+    if (i === 0) {
+      // the keyframe
+      snapshot.objects = readObjects(item.objects, `${itemPath}.objects`);
+    } else {
+      if (item.objects !== undefined) {
+        fail(`${itemPath}.objects`, "is only allowed on the first snapshot");
+      }
+      if (item.changed !== undefined) {
+        snapshot.changed = readObjects(item.changed, `${itemPath}.changed`);
+      }
+      if (item.removed !== undefined) {
+        if (
+          !Array.isArray(item.removed) ||
+          !item.removed.every((id) => typeof id === "string")
+        ) {
+          fail(`${itemPath}.removed`, "must be an array of ids");
+        }
+        snapshot.removed = item.removed;
+      }
+    }
+    const action = readOptional<string>(item, "action", "string", itemPath);
+    if (action !== undefined) {
+      snapshot.action = action;
+    }
+    return snapshot;
+  });
+}
+
+/**
+ * validates a current version scene and copies only the known fields
+ */
+function readScene(value: unknown): SceneMemory {
+  if (!isRecord(value)) {
+    fail("scene", "must be an object");
+  }
+  const scene: SceneMemory = {
+    user: readPosition(value.user, "scene.user"),
+    heading: readHeading(value.heading, "scene.heading"),
+    objects: readObjects(value.objects, "scene.objects"),
+    history: readHistory(value.history ?? [], "scene.history"),
+  };
+  if (value.goal !== undefined) {
+    scene.goal = readPosition(value.goal, "scene.goal");
+  }
+  const goalDescription = readOptional<string>(value, "goalDescription", "string", "scene");
+  if (goalDescription !== undefined) {
+    scene.goalDescription = goalDescription;
+  }
+  return scene;
+}
+
+export function serializeScene(scene: SceneMemory): string {
+  const file: SceneFile = {
+    format: SCENE_FORMAT,
+    version: SCENE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    scene,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parses a scene file of any known version, migrating it to the current one.
+ * Throws an Error naming the offending field when the file is malformed.
+ */
+export function parseScene(input: string | unknown): SceneMemory {
+  let data: unknown = input;
+  if (typeof input === "string") {
+    try {
+      data = JSON.parse(input);
+    } catch (e) {
+      throw new Error(`invalid scene file: not JSON (${(e as Error).message})`);
+    }
+  }
+  if (!isRecord(data)) {
+    fail("file", "must be a JSON object");
+  }
+
+  let file = data;
+  let version = file.version === undefined ? 1 : file.version;
+  if (version !== 1 && file.format !== SCENE_FORMAT) {
+    fail("format", `must be "${SCENE_FORMAT}"`);
+  }
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    fail("version", "must be a positive integer");
+  }
+  if (version > SCENE_FORMAT_VERSION) {
+    throw new Error(
+      `invalid scene file: version ${version} is newer than the supported version ${SCENE_FORMAT_VERSION}`
+    );
+  }
+  while (version < SCENE_FORMAT_VERSION) {
+    file = migrations[version](file);
+    version++;
+  }
+
+  return readScene(file.scene);
+}
@@ -0,0 +1,73 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { GenAILiveClient } from "./genai-live-client";
+import { expandHistory } from "./scene-history";
+
+test("history stores diffs and stays within its limits", () => {
+  const client = new GenAILiveClient({ apiKey: "test" });
+  client.historyLimits = { maxEntries: 3, maxAgeMs: Infinity };
+
+  client.updateSceneObject({ category: "box", position: [3, 0] });
+  for (let step = 1; step <= 5; step++) {
+    client.updateUserPosition([step, 0], `step ${step}`);
+    client.updateSceneObject({ category: "cone", position: [step * 5, 5] });
+  }
+
+  const { history } = client.sceneMemory;
+  expect(history).toHaveLength(3);
+  expect(history[0].objects).toBeDefined();
+  expect(history[1].objects).toBeUndefined();
+  expect(history[1].changed!.map((o) => o.id)).toEqual(["cone-3"]);
+
+  // the pruned chain still rebuilds every snapshot in full
+  const states = expandHistory(history);
+  expect(states.map((s) => s.user)).toEqual([
+    [2, 0],
+    [3, 0],
+    [4, 0],
+  ]);
+  expect(states[2].objects.map((o) => o.id)).toEqual([
+    "box-1",
+    "cone-1",
+    "cone-2",
+    "cone-3",
+    "cone-4",
+  ]);
+});
+
+test("undo and rewind restore the user and objects", () => {
+  const client = new GenAILiveClient({ apiKey: "test" });
+  const updates = jest.fn();
+  client.on("sceneupdate", updates);
+
+  client.updateUserPose([0, 2], 90, "moved 2 steps right");
+  const afterFirstMove = client.sceneMemory.history[0].timestamp;
+  client.updateSceneObject({ category: "chair", position: [3, 2] });
+  client.updateUserPose([2, 2], 0, "moved 2 steps forward");
+
+  expect(client.undoLastMove()).toBe(true);
+  expect(client.sceneMemory.user).toEqual([0, 2]);
+  expect(client.sceneMemory.heading).toBe(90);
+  expect(client.sceneMemory.objects.map((o) => o.id)).toEqual(["chair-1"]);
+
+  expect(client.rewindTo(afterFirstMove)).toBe(true);
+  expect(client.sceneMemory.user).toEqual([0, 0]);
+  expect(client.sceneMemory.objects).toEqual([]);
+  expect(client.sceneMemory.history).toEqual([]);
+  expect(client.undoLastMove()).toBe(false);
+  expect(updates).toHaveBeenCalledTimes(5);
+});
@@ -0,0 +1,153 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { isEqual } from "lodash";
+import { Position, SceneObject, SceneSnapshot } from "../types";
+
+/**
+ * Scene history is stored compressed: the oldest snapshot is a keyframe
+ * holding every object, each later snapshot only holds the objects that
+ * changed or were removed since the snapshot before it.
+ */
+
+export type HistoryLimits = {
+  maxEntries: number; // oldest snapshots beyond this count are dropped
+  maxAgeMs: number; // snapshots older than this are dropped
+};
+
+export const defaultHistoryLimits: HistoryLimits = {
+  maxEntries: 200,
+  maxAgeMs: 60 * 60 * 1000,
+};
+
+// an uncompressed snapshot, what the scene looked like at that moment
+export type SceneState = {
+  timestamp: number;
+  user: Position;
+  heading: number;
+  objects: SceneObject[];
+  action?: string;
+};
+
+function applyDiff(objects: SceneObject[], snapshot: SceneSnapshot) {
+  if (snapshot.objects) {
+    return snapshot.objects;
+  }
+  const removed = new Set(snapshot.removed);
+  const changed = new Map((snapshot.changed || []).map((obj) => [obj.id, obj]));
+  const next = objects
+    .filter((obj) => !removed.has(obj.id))
+    .map((obj) => changed.get(obj.id) || obj);
+  changed.forEach((obj) => {
+    if (!objects.some((o) => o.id === obj.id)) {
+      next.push(obj);
+    }
+  });
+  return next;
+}
+
+/** rebuilds the objects as they were at history[index] */
+export function objectsAt(history: SceneSnapshot[], index: number): SceneObject[] {
+  let objects: SceneObject[] = [];
+  for (let i = 0; i <= index; i++) {
+    objects = applyDiff(objects, history[i]);
+  }
+  return objects;
+}
+
+/** rebuilds every snapshot in full, oldest first */
+export function expandHistory(history: SceneSnapshot[]): SceneState[] {
+  let objects: SceneObject[] = [];
+  return history.map((snapshot) => {
+    objects = applyDiff(objects, snapshot);
+    const { timestamp, user, heading, action } = snapshot;
+    return { timestamp, user, heading, objects, action };
+  });
+}
+
+function toSnapshot(
+  state: SceneState,
+  previous: SceneObject[] | null
+): SceneSnapshot {
+  const { timestamp, user, heading, action } = state;
+  const snapshot: SceneSnapshot = { timestamp, user: [...user], heading };
+  if (action !== undefined) {
+    snapshot.action = action;
+  }
+  if (!previous) {
+    snapshot.objects = [...state.objects];
+    return snapshot;
+  }
+  const ids = new Set(state.objects.map((obj) => obj.id));
+  const changed = state.objects.filter(
+    (obj) => !isEqual(previous.find((p) => p.id === obj.id), obj)
+  );
+  const removed = previous.filter((p) => !ids.has(p.id)).map((p) => p.id);
+  if (changed.length) {
+    snapshot.changed = changed;
+  }
+  if (removed.length) {
+    snapshot.removed = removed;
+  }
+  return snapshot;
+}
+
+/** compresses full snapshots, oldest first, into keyframe plus diffs */
+export function compressHistory(states: SceneState[]): SceneSnapshot[] {
+  return states.map((state, i) =>
+    toSnapshot(state, i === 0 ? null : states[i - 1].objects)
+  );
+}
+
+/**
+ * drops snapshots beyond the limits, the new oldest snapshot is
+ * rebased into a keyframe so the rest of the chain stays valid
+ */
+export function pruneHistory(
+  history: SceneSnapshot[],
+  limits: HistoryLimits,
+  now: number
+): SceneSnapshot[] {
+  let start = Math.max(0, history.length - limits.maxEntries);
+  while (start < history.length && now - history[start].timestamp > limits.maxAgeMs) {
+    start++;
+  }
+  if (start === 0) {
+    return history;
+  }
+  if (start >= history.length) {
+    return [];
+  }
+  const keyframe = toSnapshot(
+    { ...history[start], objects: objectsAt(history, start) },
+    null
+  );
+  return [keyframe, ...history.slice(start + 1)];
+}
+
+/** records a new snapshot at the end of history and applies the limits */
+export function appendSnapshot(
+  history: SceneSnapshot[],
+  state: SceneState,
+  limits: HistoryLimits
+): SceneSnapshot[] {
+  const previous = history.length ? objectsAt(history, history.length - 1) : null;
+  return pruneHistory(
+    [...history, toSnapshot(state, previous)],
+    limits,
+    state.timestamp
+  );
+}
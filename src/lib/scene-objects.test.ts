@@ -0,0 +1,74 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { GenAILiveClient } from "./genai-live-client";
+
+const newClient = () => new GenAILiveClient({ apiKey: "test" });
+
+test("two chairs far apart are two objects", () => {
+  const client = newClient();
+  const first = client.updateSceneObject({ category: "chair", position: [2, 0] });
+  const second = client.updateSceneObject({ category: "chair", position: [2, 4] });
+  expect(first.id).toBe("chair-1");
+  expect(second.id).toBe("chair-2");
+  expect(client.sceneMemory.objects).toHaveLength(2);
+});
+
+test("a nearby sighting of the same category updates the object", () => {
+  const client = newClient();
+  client.updateSceneObject({ category: "chair", position: [2, 0] });
+  const again = client.updateSceneObject({
+    category: "Chair",
+    label: "red chair",
+    position: [2.5, 0.5],
+  });
+  expect(again.id).toBe("chair-1");
+  expect(again.label).toBe("red chair");
+  expect(client.sceneMemory.objects).toHaveLength(1);
+});
+
+test("merge, split and remove keep ids stable", () => {
+  const client = newClient();
+  const a = client.updateSceneObject({ category: "table", position: [3, 0] });
+  const b = client.updateSceneObject({ category: "table", position: [3, 3] });
+
+  const merged = client.mergeSceneObjects(a.id, b.id);
+  expect(merged.id).toBe(a.id);
+  expect(merged.position).toEqual([3, 1.5]);
+
+  const parts = client.splitSceneObject(a.id, [
+    [3, 0],
+    [3, 3],
+  ]);
+  expect(parts.map((p) => p.id)).toEqual(["table-1", "table-3"]);
+
+  expect(client.removeSceneObject("table-3")).toBe(true);
+  expect(client.sceneMemory.objects.map((o) => o.id)).toEqual(["table-1"]);
+});
+
+test("unobserved objects go stale and recover when seen again", () => {
+  const client = newClient();
+  const chair = client.updateSceneObject({ category: "chair", position: [2, 0] });
+  const { halfLifeMs } = client.staleness;
+  const later = chair.timestamp! + 2 * halfLifeMs;
+
+  expect(client.refreshStaleness(later)).toBe(true);
+  expect(client.sceneMemory.objects[0].stale).toBe(true);
+
+  client.updateSceneObject({ category: "chair", position: [2, 0] });
+  expect(client.sceneMemory.objects[0].stale).toBe(false);
+  expect(client.sceneMemory.objects[0].confidence).toBe(1);
+});
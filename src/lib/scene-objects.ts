@@ -0,0 +1,112 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SceneObject, SceneObservation } from "../types";
+import { distanceBetween } from "./spatial";
+
+/** turns a category such as "Office Chair" into an id prefix "office-chair" */
+export function slugify(text: string) {
+  const slug = text
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || "object";
+}
+
+/**
+ * generates a readable id such as "chair-2" that is not in `taken`,
+ * readable ids let the model refer to objects in function calls
+ */
+export function generateObjectId(category: string, taken: Set<string>) {
+  const prefix = slugify(category);
+  let n = 1;
+  while (taken.has(`${prefix}-${n}`)) {
+    n++;
+  }
+  return `${prefix}-${n}`;
+}
+
+/**
+ * Finds the remembered object a new observation most likely refers to:
+ * the closest object of the same category within `radius` steps.
+ * Returns undefined when the observation looks like a new object.
+ */
+export function findMatchingObject(
+  objects: SceneObject[],
+  observation: SceneObservation,
+  radius: number
+): SceneObject | undefined {
+  const category = observation.category.trim().toLowerCase();
+  let best: SceneObject | undefined;
+  let bestDistance = radius;
+  objects.forEach((object) => {
+    if (object.category.trim().toLowerCase() !== category) {
+      return;
+    }
+    const distance = distanceBetween(object.position, observation.position);
+    if (distance <= bestDistance) {
+      best = object;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+/**
+ * combines two entries that turned out to be the same physical object,
+ * the position is averaged and missing details are taken from `other`
+ */
+export function mergeObjects(keep: SceneObject, other: SceneObject): SceneObject {
+  return {
+    ...keep,
+    position: [
+      (keep.position[0] + other.position[0]) / 2,
+      (keep.position[1] + other.position[1]) / 2,
+    ],
+    description: keep.description ?? other.description,
+    timestamp: Math.max(keep.timestamp ?? 0, other.timestamp ?? 0) || undefined,
+  };
+}
+
+export type StalenessPolicy = {
+  halfLifeMs: number; // time for an unobserved object's confidence to halve
+  staleThreshold: number; // below this the object is marked stale
+  dropThreshold: number; // below this the object is left out of prompts and routes
+};
+
+export const defaultStalenessPolicy: StalenessPolicy = {
+  halfLifeMs: 3 * 60 * 1000,
+  staleThreshold: 0.4,
+  dropThreshold: 0.1,
+};
+
+/**
+ * confidence of an object now, decaying exponentially since it was last seen,
+ * objects without a timestamp are treated as just observed
+ */
+export function currentConfidence(
+  object: SceneObject,
+  now: number,
+  halfLifeMs: number
+) {
+  const base = object.confidence ?? 1;
+  if (object.timestamp === undefined) {
+    return base;
+  }
+  const age = Math.max(0, now - object.timestamp);
+  return base * Math.pow(0.5, age / halfLifeMs);
+}
@@ -0,0 +1,50 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { GenAILiveClient } from "./genai-live-client";
+import { MemorySceneStore } from "./scene-store";
+
+test("scene updates are saved and restored by a new client", async () => {
+  const sceneStore = new MemorySceneStore();
+  const client = new GenAILiveClient({ apiKey: "test", sceneStore });
+
+  await client.saveScene("kitchen");
+  client.updateSceneObject({ category: "fridge", position: [2, 1] });
+  await Promise.resolve();
+
+  const reloaded = new GenAILiveClient({ apiKey: "test", sceneStore });
+  expect(await reloaded.restoreLastScene()).toBe(true);
+  expect(reloaded.sceneName).toBe("kitchen");
+  expect(reloaded.sceneMemory.objects.map((o) => o.id)).toEqual(["fridge-1"]);
+});
+
+test("lists, loads and deletes named scenes", async () => {
+  const sceneStore = new MemorySceneStore();
+  const client = new GenAILiveClient({ apiKey: "test", sceneStore });
+
+  client.updateSceneObject({ category: "desk", position: [3, 0] });
+  await client.saveScene("office");
+  client.resetScene();
+
+  expect((await client.listScenes()).map((s) => s.name).sort()).toEqual([
+    "default",
+    "office",
+  ]);
+  expect(await client.loadScene("office")).toBe(true);
+  expect(client.sceneMemory.objects).toHaveLength(1);
+  expect(await client.deleteScene("office")).toBe(true);
+  expect(await client.loadScene("office")).toBe(false);
+});
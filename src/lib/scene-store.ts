@@ -0,0 +1,157 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { cloneDeep } from "lodash";
+import { SceneMemory } from "../types";
+
+export type SavedSceneSummary = {
+  name: string; // e.g. "kitchen" or "office"
+  updatedAt: number;
+  objectCount: number;
+};
+
+type SavedScene = {
+  name: string;
+  updatedAt: number;
+  scene: SceneMemory;
+};
+
+/**
+ * Persistence backend for named scene maps.
+ * Implementations must return copies so callers can't mutate stored scenes.
+ */
+export interface SceneStore {
+  save(name: string, scene: SceneMemory): Promise<void>;
+  load(name: string): Promise<SceneMemory | null>;
+  list(): Promise<SavedSceneSummary[]>;
+  delete(name: string): Promise<boolean>;
+}
+
+const summarize = ({ name, updatedAt, scene }: SavedScene) => ({
+  name,
+  updatedAt,
+  objectCount: scene.objects.length,
+});
+
+const newestFirst = (a: SavedSceneSummary, b: SavedSceneSummary) =>
+  b.updatedAt - a.updatedAt;
+
+/**
+ * keeps scenes in a Map, used in tests and where IndexedDB is unavailable
+ */
+export class MemorySceneStore implements SceneStore {
+  private scenes = new Map<string, SavedScene>();
+
+  async save(name: string, scene: SceneMemory) {
+    this.scenes.set(name, {
+      name,
+      updatedAt: Date.now(),
+      scene: cloneDeep(scene),
+    });
+  }
+
+  async load(name: string) {
+    const saved = this.scenes.get(name);
+    return saved ? cloneDeep(saved.scene) : null;
+  }
+
+  async list() {
+    return Array.from(this.scenes.values()).map(summarize).sort(newestFirst);
+  }
+
+  async delete(name: string) {
+    return this.scenes.delete(name);
+  }
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * stores scenes in an IndexedDB object store keyed by scene name
+ */
+export class IndexedDBSceneStore implements SceneStore {
+  private static storeName = "scenes";
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(public databaseName = "lumex-scene-memory") {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(this.databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(IndexedDBSceneStore.storeName, {
+          keyPath: "name",
+        });
+      };
+      this.db = requestToPromise(request);
+      // allow a later call to retry if opening failed
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  private async objectStore(mode: IDBTransactionMode) {
+    const db = await this.open();
+    return db
+      .transaction(IndexedDBSceneStore.storeName, mode)
+      .objectStore(IndexedDBSceneStore.storeName);
+  }
+
+  async save(name: string, scene: SceneMemory) {
+    const record: SavedScene = { name, updatedAt: Date.now(), scene };
+    await requestToPromise((await this.objectStore("readwrite")).put(record));
+  }
+
+  async load(name: string) {
+    const record: SavedScene | undefined = await requestToPromise(
+      (await this.objectStore("readonly")).get(name)
+    );
+    return record ? record.scene : null;
+  }
+
+  async list() {
+    const records: SavedScene[] = await requestToPromise(
+      (await this.objectStore("readonly")).getAll()
+    );
+    return records.map(summarize).sort(newestFirst);
+  }
+
+  async delete(name: string) {
+    const store = await this.objectStore("readwrite");
+    const existing = await requestToPromise(store.getKey(name));
+    if (existing === undefined) {
+      return false;
+    }
+    await requestToPromise(store.delete(name));
+    return true;
+  }
+}
+
+/**
+ * IndexedDB when the browser has it, otherwise scenes only live for the session
+ */
+export function createDefaultSceneStore(): SceneStore {
+  return typeof indexedDB !== "undefined"
+    ? new IndexedDBSceneStore()
+    : new MemorySceneStore();
+}
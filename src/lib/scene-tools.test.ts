@@ -0,0 +1,140 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { FunctionResponse } from "@google/genai";
+import { GenAILiveClient } from "./genai-live-client";
+import { sceneTools } from "./scene-tools";
+import { ToolRegistry } from "./tool-registry";
+
+function setup() {
+  const client = new GenAILiveClient({ apiKey: "test" });
+  const tools = new ToolRegistry(client);
+  tools.register(...sceneTools(client));
+  const sendToolResponse = jest
+    .spyOn(client, "sendToolResponse")
+    .mockImplementation(() => {});
+
+  // runs one function call through the registry and returns its response
+  const call = async (name: string, args: Record<string, unknown> = {}) => {
+    sendToolResponse.mockClear();
+    await tools.handleToolCall({ functionCalls: [{ id: "1", name, args }] });
+    expect(sendToolResponse).toHaveBeenCalledTimes(1);
+    const [response] = sendToolResponse.mock.calls[0][0]
+      .functionResponses as FunctionResponse[];
+    expect(response).toMatchObject({ id: "1", name });
+    return response.response!;
+  };
+  return { client, call };
+}
+
+test("report_object stores and updates objects", async () => {
+  const { client, call } = setup();
+
+  const stored = await call("report_object", {
+    category: "chair",
+    label: "red chair",
+    x: 3,
+    y: 1,
+    confidence: 2,
+  });
+  expect(stored.output).toBe("stored red chair");
+  expect(stored.scene).toBe(client.getSceneContext());
+  const [chair] = client.sceneMemory.objects;
+  expect(chair).toMatchObject({
+    id: stored.id,
+    category: "chair",
+    position: [3, 1],
+    confidence: 1,
+  });
+
+  const moved = await call("report_object", { category: "chair", x: 4, y: 1, id: stored.id });
+  expect(moved.id).toBe(stored.id);
+  expect(client.sceneMemory.objects).toHaveLength(1);
+  expect(client.sceneMemory.objects[0].position).toEqual([4, 1]);
+
+  expect(await call("report_object", { category: "chair", x: 1 })).toEqual({
+    error: '"y" is required',
+  });
+  expect(client.sceneMemory.objects).toHaveLength(1);
+});
+
+test("remove_object forgets an object and rejects unknown ids", async () => {
+  const { client, call } = setup();
+  const { id } = await call("report_object", { category: "box", x: 2, y: 0 });
+
+  expect(await call("remove_object", { id })).toMatchObject({ output: `removed ${id}` });
+  expect(client.sceneMemory.objects).toEqual([]);
+  expect(await call("remove_object", { id })).toEqual({
+    error: `no object with id "${id}"`,
+  });
+});
+
+test("move_user records position, heading and history", async () => {
+  const { client, call } = setup();
+
+  const moved = await call("move_user", { x: 2, y: 0, heading: 90, action: "turned right" });
+  expect(moved.output).toBe("position updated");
+  expect(client.sceneMemory.user).toEqual([2, 0]);
+  expect(client.sceneMemory.heading).toBe(90);
+  expect(client.sceneMemory.history.at(-1)?.action).toBe("turned right");
+
+  // without a heading the user keeps facing the same way
+  await call("move_user", { x: 2, y: 3 });
+  expect(client.sceneMemory.user).toEqual([2, 3]);
+  expect(client.sceneMemory.heading).toBe(90);
+});
+
+test("set_goal takes a description, coordinates or both", async () => {
+  const { client, call } = setup();
+
+  expect(await call("set_goal", { description: "the door", x: 5, y: 0 })).toMatchObject({
+    output: "goal set",
+  });
+  expect(client.sceneMemory.goalDescription).toBe("the door");
+  expect(client.sceneMemory.goal).toEqual([5, 0]);
+  expect(client.getSceneContext()).toContain("the door");
+
+  // a new goal replaces both parts of the old one
+  await call("set_goal", { description: "the window" });
+  expect(client.sceneMemory.goalDescription).toBe("the window");
+  expect(client.sceneMemory.goal).toBeUndefined();
+  await call("set_goal", { x: 2, y: 3 });
+  expect(client.sceneMemory.goalDescription).toBeUndefined();
+  expect(client.sceneMemory.goal).toEqual([2, 3]);
+
+  expect(await call("set_goal")).toEqual({ error: "provide a description or x and y" });
+  expect(await call("set_goal", { x: 1 })).toEqual({
+    error: '"x" and "y" must be given together',
+  });
+});
+
+test("mark_goal_reached ends navigation and clear_scene resets the scene", async () => {
+  const { client, call } = setup();
+  const reached = jest.fn();
+  client.on("goalreached", reached);
+  await call("report_object", { category: "door", x: 5, y: 0 });
+  await call("set_goal", { description: "the door", x: 5, y: 0 });
+  await call("move_user", { x: 5, y: 0 });
+
+  expect(await call("mark_goal_reached")).toMatchObject({ output: "navigation complete" });
+  expect(reached).toHaveBeenCalledWith("the door");
+  expect(client.sceneMemory.goal).toBeUndefined();
+  expect(client.sceneMemory.goalDescription).toBeUndefined();
+
+  expect(await call("clear_scene")).toMatchObject({ output: "scene cleared" });
+  expect(client.sceneMemory.objects).toEqual([]);
+  expect(client.sceneMemory.user).toEqual([0, 0]);
+});
@@ -0,0 +1,223 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Type } from "@google/genai";
+import { Position } from "../types";
+import { GenAILiveClient } from "./genai-live-client";
+import { defineTool, ToolResult } from "./tool-registry";
+
+/**
+ * Tools that let the model write scene memory itself.
+ * Coordinates follow the system prompt: the user starts at [0, 0],
+ * x grows forward and y grows to the right, one unit is roughly one step.
+ * The current scene context is returned with every response so the model
+ * can check what it stored.
+ */
+export function sceneTools(client: GenAILiveClient) {
+  const respond = (output: string, extra: ToolResult = {}) => ({
+    output,
+    ...extra,
+    scene: client.getSceneContext(),
+  });
+
+  return [
+    defineTool<{
+      category: string;
+      label?: string;
+      x: number;
+      y: number;
+      description?: string;
+      id?: string;
+      confidence?: number;
+    }>({
+      name: "report_object",
+      description:
+        "Stores an object sighting in scene memory so it can be used for navigation after it leaves the camera view. A sighting close to a remembered object of the same category updates that object, pass id to update a specific object instead.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          category: {
+            type: Type.STRING,
+            description: "Kind of object, e.g. 'chair', 'box' or 'door'.",
+          },
+          label: {
+            type: Type.STRING,
+            description:
+              "How to tell it apart from others of its kind, e.g. 'red chair by the window'.",
+          },
+          x: {
+            type: Type.NUMBER,
+            description: "Forward coordinate in steps from the origin.",
+          },
+          y: {
+            type: Type.NUMBER,
+            description: "Rightward coordinate in steps from the origin.",
+          },
+          description: {
+            type: Type.STRING,
+            description: "Optional detail such as size, colour or hazard.",
+          },
+          id: {
+            type: Type.STRING,
+            description: "Id from scene memory of the object being updated.",
+          },
+          confidence: {
+            type: Type.NUMBER,
+            description:
+              "How sure you are about the object and its position, from 0 to 1. Defaults to 1.",
+          },
+        },
+        required: ["category", "x", "y"],
+      },
+      handler: ({ category, label, x, y, description, id, confidence }) => {
+        const object = client.updateSceneObject({
+          id,
+          category,
+          label,
+          position: [x, y],
+          description,
+          confidence:
+            confidence === undefined
+              ? undefined
+              : Math.min(1, Math.max(0, confidence)),
+        });
+        return respond(`stored ${object.label}`, { id: object.id });
+      },
+    }),
+    defineTool<{ id: string }>({
+      name: "remove_object",
+      description:
+        "Forgets an object that is no longer there, e.g. a chair that was moved away.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: "Id from scene memory." },
+        },
+        required: ["id"],
+      },
+      handler: ({ id }) => {
+        if (!client.removeSceneObject(id)) {
+          throw new Error(`no object with id "${id}"`);
+        }
+        return respond(`removed ${id}`);
+      },
+    }),
+    defineTool<{ keep_id: string; merge_id: string }>({
+      name: "merge_objects",
+      description:
+        "Combines two scene memory entries that are really the same object.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          keep_id: { type: Type.STRING, description: "Id of the entry to keep." },
+          merge_id: {
+            type: Type.STRING,
+            description: "Id of the duplicate entry to fold into it.",
+          },
+        },
+        required: ["keep_id", "merge_id"],
+      },
+      handler: ({ keep_id, merge_id }) => {
+        const merged = client.mergeSceneObjects(keep_id, merge_id);
+        return respond(`merged into ${merged.id}`);
+      },
+    }),
+    defineTool<{ x: number; y: number; heading?: number; action?: string }>({
+      name: "move_user",
+      description:
+        "Records the user's new position, and heading if they turned, after they complete a navigation step.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          x: { type: Type.NUMBER, description: "New forward coordinate." },
+          y: { type: Type.NUMBER, description: "New rightward coordinate." },
+          heading: {
+            type: Type.NUMBER,
+            description:
+              "Direction the user now faces in degrees clockwise from forward, e.g. 90 after turning right. Omit if they did not turn.",
+          },
+          action: {
+            type: Type.STRING,
+            description: "What the user did, e.g. 'moved 2 steps right'.",
+          },
+        },
+        required: ["x", "y"],
+      },
+      handler: ({ x, y, heading, action }) => {
+        client.updateUserPose([x, y], heading ?? client.sceneMemory.heading, action);
+        return respond("position updated");
+      },
+    }),
+    defineTool({
+      name: "undo_last_move",
+      description:
+        "Reverts the last move_user call, restoring the previous position, heading and objects. Use when the user says a step was reported wrongly.",
+      handler: () => {
+        if (!client.undoLastMove()) {
+          throw new Error("there is no move to undo");
+        }
+        return respond("last move undone");
+      },
+    }),
+    defineTool<{ description?: string; x?: number; y?: number }>({
+      name: "set_goal",
+      description:
+        "Sets the navigation goal, as a description, coordinates or both.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          description: {
+            type: Type.STRING,
+            description: "Where the user wants to go, in words.",
+          },
+          x: { type: Type.NUMBER, description: "Goal forward coordinate." },
+          y: { type: Type.NUMBER, description: "Goal rightward coordinate." },
+        },
+      },
+      handler: ({ description, x, y }) => {
+        const hasPosition = x !== undefined || y !== undefined;
+        if (!description && !hasPosition) {
+          throw new Error("provide a description or x and y");
+        }
+        if (hasPosition && (x === undefined || y === undefined)) {
+          throw new Error(`"x" and "y" must be given together`);
+        }
+        const position: Position | undefined =
+          x !== undefined && y !== undefined ? [x, y] : undefined;
+        client.replaceNavigationGoal(description, position);
+        return respond("goal set");
+      },
+    }),
+    defineTool({
+      name: "clear_scene",
+      description:
+        "Forgets every stored object and resets the user to the origin. Use when the user moves to a new place.",
+      handler: () => {
+        client.resetScene();
+        return respond("scene cleared");
+      },
+    }),
+    defineTool({
+      name: "mark_goal_reached",
+      description:
+        "Marks the current navigation goal as reached and ends the navigation.",
+      handler: () => {
+        client.completeNavigationGoal();
+        return respond("navigation complete");
+      },
+    }),
+  ];
+}
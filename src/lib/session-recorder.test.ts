@@ -0,0 +1,122 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { GenAILiveClient } from "./genai-live-client";
+import navigateAroundBox from "./mock-live/fixtures/navigate-around-box.json";
+import { MockLiveServer } from "./mock-live/mock-live-server";
+import { readScenario } from "./mock-live/scenario";
+import { NavigationController } from "./navigation-controller";
+import { sceneTools } from "./scene-tools";
+import { readRecording, RECORDING_FORMAT } from "./session-recorder";
+import { ToolRegistry } from "./tool-registry";
+
+function withSceneTools(client: GenAILiveClient) {
+  const tools = new ToolRegistry(client);
+  tools.register(...sceneTools(client));
+  tools.attach();
+}
+
+test("a recorded session replays without a connection", async () => {
+  const server = new MockLiveServer(readScenario(navigateAroundBox));
+  const url = await server.start();
+  const live = new GenAILiveClient({ apiKey: "test", mockServerUrl: url, reconnect: false });
+  withSceneTools(live);
+  const navigation = new NavigationController(live);
+  navigation.attach();
+
+  const setupComplete = new Promise<void>((resolve) => live.once("setupcomplete", resolve));
+  await live.connect("models/mock", {});
+  await setupComplete;
+
+  live.startRecording();
+  live.sendRealtimeInput([{ mimeType: "image/jpeg", data: "AAAA" }]);
+  const step = new Promise((resolve) => navigation.once("step", resolve));
+  navigation.start("the other side of the box");
+  await step;
+  const recorded = live.stopRecording()!;
+
+  await expect(live.replay(recorded)).rejects.toThrow("cannot replay while connected");
+  live.disconnect();
+  await server.stop();
+
+  const summary = recorded.entries.map((e) => `${e.direction} ${e.type}`);
+  expect(summary[0]).toBe("out realtimeInput");
+  expect(summary).toContain("out clientContent");
+  expect(summary).toContain("out toolResponse");
+  expect(summary).toContain("in serverMessage");
+  expect(recorded.entries[0].payload).toEqual({ mimeType: "image/jpeg", data: "AAAA" });
+  expect(recorded.model).toBe("models/mock");
+
+  // the archive is JSON, replay into a fresh client from its text
+  const recording = await readRecording(JSON.stringify(recorded));
+  const replayed = new GenAILiveClient({ apiKey: "test" });
+  withSceneTools(replayed);
+  const audio = jest.fn();
+  const said: string[] = [];
+  const logs: string[] = [];
+  replayed.on("audio", audio);
+  replayed.on("outputtranscription", (text, finished) => finished && said.push(text));
+  replayed.on("log", ({ type }) => logs.push(type));
+
+  expect(await replayed.replay(recording, 100)).toBe(true);
+  expect(replayed.replaying).toBe(false);
+  expect(replayed.sceneMemory.objects.map((o) => o.id)).toEqual(["box-1"]);
+  expect(replayed.sceneMemory.goal).toEqual([6, 0]);
+  expect(audio).toHaveBeenCalled();
+  expect(said[0]).toMatch(/^There is a box 3 steps ahead/);
+  expect(logs).toContain("replay.realtimeInput");
+  expect(logs).toContain("replay.clientContent");
+  expect(logs.at(-1)).toBe("replay.end");
+});
+
+test("replays can be stopped and malformed recordings are rejected", async () => {
+  const client = new GenAILiveClient({ apiKey: "test" });
+  const recording = await readRecording({
+    format: RECORDING_FORMAT,
+    version: 1,
+    startedAt: new Date().toISOString(),
+    model: null,
+    config: null,
+    scene: null,
+    entries: [
+      { t: 0, direction: "in", type: "serverMessage", payload: { serverContent: { turnComplete: true } } },
+      { t: 5000, direction: "in", type: "serverMessage", payload: { serverContent: { turnComplete: true } } },
+    ],
+  });
+  const turnComplete = jest.fn();
+  client.on("turncomplete", turnComplete);
+
+  const done = client.replay(recording);
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  expect(client.stopReplay()).toBe(true);
+  expect(await done).toBe(false);
+  expect(turnComplete).toHaveBeenCalledTimes(1);
+
+  // a listener that throws ends the replay
+  turnComplete.mockImplementationOnce(() => {
+    throw new Error("listener failed");
+  });
+  await expect(client.replay(recording, 1000)).rejects.toThrow("listener failed");
+  expect(client.replaying).toBe(false);
+
+  await expect(readRecording("{")).rejects.toThrow("invalid recording: not JSON");
+  await expect(readRecording({ format: "other" })).rejects.toThrow(
+    `invalid recording: format must be "${RECORDING_FORMAT}"`
+  );
+  await expect(
+    readRecording({ format: RECORDING_FORMAT, version: 1, entries: [{ t: 0, direction: "up" }] })
+  ).rejects.toThrow('invalid recording: entries[0].direction must be "in" or "out"');
+});
@@ -0,0 +1,148 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LiveConnectConfig } from "@google/genai";
+
+/**
+ * A recording of a whole Live session for bug reports: every message sent,
+ * including JPEG frames and PCM chunks, and every message received, each with
+ * the time since recording started, plus the scene memory at the start.
+ * A recording is saved as a single JSON archive, gzipped where supported.
+ */
+export const RECORDING_FORMAT = "lumex-session-recording";
+export const RECORDING_VERSION = 1;
+
+export type RecordedEntryType =
+  | "realtimeInput" // one media chunk, { mimeType, data }
+  | "activity" // "activityStart", "activityEnd" or "audioStreamEnd"
+  | "clientContent" // { turns, turnComplete }
+  | "toolResponse" // LiveClientToolResponse
+  | "serverMessage"; // LiveServerMessage
+
+export type RecordedEntry = {
+  t: number; // ms since the recording started
+  direction: "out" | "in";
+  type: RecordedEntryType;
+  payload: unknown;
+};
+
+export type SessionRecording = {
+  format: typeof RECORDING_FORMAT;
+  version: number;
+  startedAt: string;
+  model: string | null;
+  config: LiveConnectConfig | null;
+  scene: unknown; // scene file from serializeScene, as it was at the start
+  entries: RecordedEntry[];
+};
+
+export class SessionRecorder {
+  private readonly start = Date.now();
+  private entries: RecordedEntry[] = [];
+
+  constructor(
+    private model: string | null,
+    private config: LiveConnectConfig | null,
+    private scene: unknown
+  ) {}
+
+  get size() {
+    return this.entries.length;
+  }
+
+  record(direction: RecordedEntry["direction"], type: RecordedEntryType, payload: unknown) {
+    this.entries.push({ t: Date.now() - this.start, direction, type, payload });
+  }
+
+  toRecording(): SessionRecording {
+    return {
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      startedAt: new Date(this.start).toISOString(),
+      model: this.model,
+      config: this.config,
+      scene: this.scene,
+      entries: [...this.entries],
+    };
+  }
+}
+
+/**
+ * bundles a recording into a single downloadable file
+ */
+export async function recordingToBlob(recording: SessionRecording): Promise<Blob> {
+  const json = new Blob([JSON.stringify(recording)], { type: "application/json" });
+  if (typeof CompressionStream === "undefined") {
+    return json;
+  }
+  const gzipped = json.stream().pipeThrough(new CompressionStream("gzip"));
+  return new Response(gzipped).blob();
+}
+
+async function blobText(blob: Blob) {
+  const header = new Uint8Array(await blob.slice(0, 2).arrayBuffer());
+  const isGzip = header[0] === 0x1f && header[1] === 0x8b;
+  if (!isGzip) {
+    return blob.text();
+  }
+  if (typeof DecompressionStream === "undefined") {
+    throw new Error("invalid recording: gzip is not supported here");
+  }
+  return new Response(
+    blob.stream().pipeThrough(new DecompressionStream("gzip"))
+  ).text();
+}
+
+/**
+ * Reads a recording from a downloaded archive, its JSON text or a parsed
+ * object. Throws naming the offending field when it is malformed.
+ */
+export async function readRecording(input: Blob | string | unknown): Promise<SessionRecording> {
+  let value = input;
+  if (input instanceof Blob) {
+    value = await blobText(input);
+  }
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch (e) {
+      throw new Error(`invalid recording: not JSON (${(e as Error).message})`);
+    }
+  }
+
+  const recording = value as Partial<SessionRecording>;
+  if (typeof value !== "object" || value === null) {
+    throw new Error("invalid recording: must be an object");
+  }
+  if (recording.format !== RECORDING_FORMAT) {
+    throw new Error(`invalid recording: format must be "${RECORDING_FORMAT}"`);
+  }
+  if (recording.version !== RECORDING_VERSION) {
+    throw new Error(`invalid recording: unsupported version ${recording.version}`);
+  }
+  if (!Array.isArray(recording.entries)) {
+    throw new Error("invalid recording: entries must be an array");
+  }
+  recording.entries.forEach((entry, i) => {
+    if (typeof entry?.t !== "number") {
+      throw new Error(`invalid recording: entries[${i}].t must be a number`);
+    }
+    if (entry.direction !== "in" && entry.direction !== "out") {
+      throw new Error(`invalid recording: entries[${i}].direction must be "in" or "out"`);
+    }
+  });
+  return recording as SessionRecording;
+}
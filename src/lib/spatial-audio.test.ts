@@ -0,0 +1,58 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SceneMemory, SceneObject } from "../types";
+import { pannerPosition, sceneCues, stereoPan } from "./spatial-audio";
+
+function scene(objects: SceneObject[], user: [number, number] = [0, 0]): SceneMemory {
+  return { user, heading: 0, objects, history: [] };
+}
+
+const box: SceneObject = { id: "box-1", category: "box", label: "box", position: [0, -3] };
+const chair: SceneObject = { id: "chair-1", category: "chair", label: "chair", position: [4, 1] };
+
+test("left is panned left and ahead is in front of the listener", () => {
+  expect(stereoPan(270)).toBeCloseTo(-1);
+  expect(stereoPan(90)).toBeCloseTo(1);
+  expect(stereoPan(0)).toBeCloseTo(0);
+
+  const [x, , z] = pannerPosition(0, 3);
+  expect(x).toBeCloseTo(0);
+  expect(z).toBeCloseTo(-3);
+  expect(pannerPosition(270, 0.2)[0]).toBeCloseTo(-1);
+});
+
+test("new objects, approached obstacles and a new goal are cued once", () => {
+  const first = sceneCues(null, scene([box]));
+  expect(first).toMatchObject([{ kind: "object", id: "box-1", bearing: 270, distance: 3 }]);
+
+  // nothing new
+  expect(sceneCues(scene([box]), scene([box]))).toEqual([]);
+
+  // walking up to the box and seeing a chair
+  const near = sceneCues(scene([box]), scene([box, chair], [0, -2]));
+  expect(near.map((c) => [c.kind, c.id])).toEqual([
+    ["obstacle", "box-1"],
+    ["object", "chair-1"],
+  ]);
+  expect(sceneCues(scene([box], [0, -2]), scene([box], [0, -2.5]))).toEqual([]);
+
+  const withGoal = { ...scene([box]), goal: [5, 0] as [number, number] };
+  expect(sceneCues(scene([box]), withGoal)).toMatchObject([
+    { kind: "goal", bearing: 0, distance: 5 },
+  ]);
+  expect(sceneCues(withGoal, withGoal)).toEqual([]);
+});
@@ -0,0 +1,295 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { Position, SceneMemory, SceneObject } from "../types";
+import { AudioStreamer } from "./audio-streamer";
+import { GenAILiveClient } from "./genai-live-client";
+import { distanceBetween, relativeBearing, signedAngle } from "./spatial";
+
+/**
+ * Short sounds played from the direction of something in scene memory,
+ * hearing an obstacle on the left is faster than parsing "at 10 o'clock".
+ *
+ * Earcons go through an HRTF PannerNode so front and back can be told apart
+ * on headphones, the model's voice goes through a StereoPannerNode, which
+ * keeps speech clear.
+ */
+
+export type EarconKind = "object" | "obstacle" | "goal";
+
+export type Cue = {
+  kind: EarconKind;
+  // relative bearing, 0 is straight ahead and 90 is to the right
+  bearing: number;
+  // in steps
+  distance: number;
+  // of the object, absent for the goal
+  id?: string;
+};
+
+// closer than this in steps an object is cued as an obstacle
+export const OBSTACLE_DISTANCE = 2;
+// cues from one scene update, nearest first
+const MAX_CUES = 3;
+// gap between cues from the same update
+const CUE_SPACING = 0.3;
+
+type Tone = { frequency: number; start: number; duration: number };
+
+// two low beeps, one high ping, a rising pair
+const earcons: Record<EarconKind, Tone[]> = {
+  obstacle: [
+    { frequency: 330, start: 0, duration: 0.08 },
+    { frequency: 330, start: 0.12, duration: 0.08 },
+  ],
+  object: [{ frequency: 880, start: 0, duration: 0.1 }],
+  goal: [
+    { frequency: 660, start: 0, duration: 0.1 },
+    { frequency: 990, start: 0.12, duration: 0.14 },
+  ],
+};
+
+/**
+ * left-right pan for a StereoPannerNode, -1 is hard left, 0 is centred,
+ * behind the user is centred too as stereo cannot place it
+ */
+export function stereoPan(bearing: number) {
+  return Math.sin((signedAngle(bearing) * Math.PI) / 180);
+}
+
+/**
+ * where to put a PannerNode for a listener at the origin facing -z with +x to
+ * the right, which is the Web Audio default
+ */
+export function pannerPosition(
+  bearing: number,
+  distance: number
+): [number, number, number] {
+  const radians = (bearing * Math.PI) / 180;
+  const d = Math.max(1, distance);
+  return [Math.sin(radians) * d, 0, -Math.cos(radians) * d];
+}
+
+/** direction and distance of a position as seen by the user */
+export function cueFor(
+  scene: SceneMemory,
+  kind: EarconKind,
+  position: Position,
+  id?: string
+): Cue {
+  return {
+    kind,
+    bearing: relativeBearing(scene.user, scene.heading, position),
+    distance: distanceBetween(scene.user, position),
+    id,
+  };
+}
+
+/**
+ * What to play after a scene update: objects seen for the first time,
+ * objects the user comes close to and a new goal
+ */
+export function sceneCues(previous: SceneMemory | null, scene: SceneMemory): Cue[] {
+  const before = new Map(
+    (previous?.objects ?? []).map((o) => [
+      o.id,
+      distanceBetween(previous!.user, o.position),
+    ])
+  );
+
+  const cues = scene.objects
+    .filter((o) => !o.stale)
+    .map((o) => cueFor(scene, "object", o.position, o.id))
+    .filter((cue) => {
+      const distanceBefore = before.get(cue.id!);
+      if (cue.distance < OBSTACLE_DISTANCE) {
+        cue.kind = "obstacle";
+        return distanceBefore === undefined || distanceBefore >= OBSTACLE_DISTANCE;
+      }
+      return distanceBefore === undefined;
+    })
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_CUES);
+
+  const goal = scene.goal;
+  if (
+    goal &&
+    (previous?.goal?.[0] !== goal[0] || previous?.goal?.[1] !== goal[1])
+  ) {
+    cues.unshift(cueFor(scene, "goal", goal));
+  }
+  return cues.slice(0, MAX_CUES);
+}
+
+// scene memory is updated in place, so the previous state is kept as a copy
+function copyScene(scene: SceneMemory): SceneMemory {
+  return {
+    ...scene,
+    user: [...scene.user],
+    goal: scene.goal && [...scene.goal],
+    objects: scene.objects.map((o) => ({ ...o, position: [...o.position] })),
+  };
+}
+
+export type SpatialAudioMode = "off" | "earcons" | "voice";
+
+interface SpatialAudioStoreState {
+  mode: SpatialAudioMode;
+  setMode: (mode: SpatialAudioMode) => void;
+}
+
+/**
+ * off, earcons only, or earcons and the model's voice panned too
+ */
+export const useSpatialAudioStore = create<SpatialAudioStoreState>()(
+  persist(
+    (set) => ({
+      mode: "earcons",
+      setMode: (mode: SpatialAudioMode) => set({ mode }),
+    }),
+    { name: "lumex-spatial-audio" }
+  )
+);
+
+/**
+ * Plays cues for scene updates on the audio-out context and, in voice mode,
+ * pans the model's voice toward the goal or the object it last reported.
+ * Nothing plays until an AudioStreamer is connected with `use`.
+ */
+export class SpatialCues {
+  private context: AudioContext | null = null;
+  private voicePanner: StereoPannerNode | null = null;
+  private previous: SceneMemory | null = null;
+  // the object the model reported last, the voice is panned toward it
+  private focus: string | null = null;
+  private unsubscribe = () => {};
+
+  constructor(private client: GenAILiveClient) {
+    this.onSceneUpdate = this.onSceneUpdate.bind(this);
+  }
+
+  attach() {
+    this.detach();
+    this.previous = copyScene(this.client.sceneMemory);
+    this.client.on("sceneupdate", this.onSceneUpdate);
+    // switching voice mode on or off moves the voice at once
+    this.unsubscribe = useSpatialAudioStore.subscribe(() =>
+      this.panVoice(this.client.sceneMemory)
+    );
+  }
+
+  detach() {
+    this.client.off("sceneupdate", this.onSceneUpdate);
+    this.unsubscribe();
+  }
+
+  /**
+   * plays on the streamer's context and routes its voice through a panner
+   */
+  use(streamer: AudioStreamer) {
+    this.context = streamer.context;
+    this.voicePanner = this.context.createStereoPanner();
+    this.voicePanner.connect(this.context.destination);
+    streamer.setOutput(this.voicePanner);
+  }
+
+  /**
+   * plays the earcon for an object in scene memory, false if it is unknown
+   */
+  cueObject(id: string) {
+    const scene = this.client.sceneMemory;
+    const object = scene.objects.find((o) => o.id === id);
+    if (!object) {
+      return false;
+    }
+    const cue = cueFor(scene, "object", object.position, object.id);
+    if (cue.distance < OBSTACLE_DISTANCE) {
+      cue.kind = "obstacle";
+    }
+    this.play(cue);
+    return true;
+  }
+
+  /**
+   * plays an earcon from a direction, delay is in seconds
+   */
+  play(cue: Cue, delay = 0) {
+    const context = this.context;
+    if (!context || useSpatialAudioStore.getState().mode === "off") {
+      return;
+    }
+    const panner = new PannerNode(context, {
+      panningModel: "HRTF",
+      distanceModel: "inverse",
+      refDistance: 1,
+      rolloffFactor: 0.5,
+    });
+    const [x, y, z] = pannerPosition(cue.bearing, cue.distance);
+    panner.positionX.value = x;
+    panner.positionY.value = y;
+    panner.positionZ.value = z;
+    panner.connect(context.destination);
+
+    const start = context.currentTime + delay;
+    let end = start;
+    earcons[cue.kind].forEach((tone) => {
+      const at = start + tone.start;
+      const oscillator = context.createOscillator();
+      oscillator.type = "sine";
+      oscillator.frequency.value = tone.frequency;
+      // short fades so the tones do not click
+      const gain = context.createGain();
+      gain.gain.setValueAtTime(0, at);
+      gain.gain.linearRampToValueAtTime(0.4, at + 0.01);
+      gain.gain.linearRampToValueAtTime(0, at + tone.duration);
+      oscillator.connect(gain).connect(panner);
+      oscillator.start(at);
+      oscillator.stop(at + tone.duration);
+      end = Math.max(end, at + tone.duration);
+    });
+    setTimeout(() => panner.disconnect(), (end - context.currentTime + 0.1) * 1000);
+  }
+
+  private onSceneUpdate(scene: SceneMemory) {
+    const cues = sceneCues(this.previous, scene);
+    this.previous = copyScene(scene);
+    cues.forEach((cue, i) => this.play(cue, i * CUE_SPACING));
+
+    const reported = cues.find((cue) => cue.id);
+    if (reported) {
+      this.focus = reported.id!;
+    }
+    this.panVoice(scene);
+  }
+
+  private panVoice(scene: SceneMemory) {
+    if (!this.context || !this.voicePanner) {
+      return;
+    }
+    const focus: SceneObject | undefined = scene.objects.find(
+      (o) => o.id === this.focus
+    );
+    const target = scene.goal ?? focus?.position;
+    const pan =
+      useSpatialAudioStore.getState().mode === "voice" && target
+        ? stereoPan(relativeBearing(scene.user, scene.heading, target))
+        : 0;
+    // glide so turning does not jump the voice from side to side
+    this.voicePanner.pan.setTargetAtTime(pan, this.context.currentTime, 0.2);
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Position } from "../types";
+import { clockPosition, normalizeAngle, relativeBearing, signedAngle } from "./spatial";
+
+test.each([
+  [0, 0, 0],
+  [360, 0, 0],
+  [-90, 270, -90],
+  [180, 180, 180],
+  [-180, 180, 180],
+  [540, 180, 180],
+  [181, 181, -179],
+  [-1, 359, -1],
+])("%i degrees normalises to %i and signs to %i", (degrees, normalized, signed) => {
+  expect(normalizeAngle(degrees)).toBe(normalized);
+  expect(signedAngle(degrees)).toBe(signed);
+});
+
+test.each<[string, Position, number, Position, number]>([
+  ["straight ahead", [0, 0], 0, [5, 0], 0],
+  ["directly right", [0, 0], 0, [0, 5], 90],
+  ["directly left", [0, 0], 0, [0, -5], 270],
+  ["directly behind", [0, 0], 0, [-5, 0], 180],
+  ["behind after turning right", [2, 2], 90, [2, -3], 180],
+  ["ahead when facing 359", [0, 0], 359, [5, 0], 1],
+  ["ahead when facing 1", [0, 0], 1, [5, 0], 359],
+  ["ahead when facing -90", [1, 1], -90, [1, -4], 0],
+])("%s", (_, from, heading, to, bearing) => {
+  expect(relativeBearing(from, heading, to)).toBeCloseTo(bearing);
+});
+
+test.each([
+  [0, 12],
+  [14, 12],
+  [15, 1],
+  [90, 3],
+  [180, 6],
+  [270, 9],
+  [344, 11],
+  [345, 12],
+  [359, 12],
+  [360, 12],
+  [-90, 9],
+  [-1, 12],
+])("bearing %i is %i o'clock", (bearing, hour) => {
+  expect(clockPosition(bearing)).toBe(hour);
+});
@@ -0,0 +1,52 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Position } from "../types";
+
+/**
+ * Angles are in degrees, measured clockwise from the +x (forward) axis,
+ * so a heading of 90 means the user faces +y (right).
+ */
+
+/** normalises an angle into [0, 360) */
+export function normalizeAngle(degrees: number) {
+  return ((degrees % 360) + 360) % 360;
+}
+
+/** normalises an angle into (-180, 180], negative is to the left */
+export function signedAngle(degrees: number) {
+  const angle = normalizeAngle(degrees);
+  return angle > 180 ? angle - 360 : angle;
+}
+
+export function distanceBetween(from: Position, to: Position) {
+  return Math.hypot(to[0] - from[0], to[1] - from[1]);
+}
+
+/**
+ * direction of target as seen by a user at `from` facing `heading`,
+ * 0 is straight ahead and 90 is directly to the right
+ */
+export function relativeBearing(from: Position, heading: number, to: Position) {
+  const absolute = (Math.atan2(to[1] - from[1], to[0] - from[0]) * 180) / Math.PI;
+  return normalizeAngle(absolute - heading);
+}
+
+/** converts a relative bearing into a clock hour, 12 is straight ahead */
+export function clockPosition(bearing: number) {
+  const hour = Math.round(normalizeAngle(bearing) / 30) % 12;
+  return hour === 0 ? 12 : hour;
+}
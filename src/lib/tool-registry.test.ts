@@ -0,0 +1,155 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Type } from "@google/genai";
+import { GenAILiveClient } from "./genai-live-client";
+import { defineTool, ToolRegistry } from "./tool-registry";
+
+function setup() {
+  const client = new GenAILiveClient({ apiKey: "test" });
+  const sendToolResponse = jest
+    .spyOn(client, "sendToolResponse")
+    .mockImplementation(() => {});
+  const tools = new ToolRegistry(client, { timeoutMs: 50 });
+  tools.attach();
+  const responses = () =>
+    sendToolResponse.mock.calls.map(([r]) =>
+      r.functionResponses!.map(({ id, response }) => ({ id, ...response }))
+    );
+  return { client, tools, responses };
+}
+
+const addTool = defineTool<{ a: number; b: number; note?: string }>({
+  name: "add",
+  description: "Adds two numbers.",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      a: { type: Type.NUMBER },
+      b: { type: Type.NUMBER, maximum: 10 },
+      note: { type: Type.STRING, enum: ["quick", "slow"] },
+    },
+    required: ["a", "b"],
+  },
+  handler: async ({ a, b }) => ({ output: a + b }),
+});
+
+test("tools are declared, routed by name and validated", async () => {
+  const { tools, responses } = setup();
+  const unregister = tools.register(addTool);
+  expect(() => tools.register(addTool)).toThrow('a tool named "add" is already registered');
+
+  const config = tools.withDeclarations({ tools: [{ googleSearch: {} }] });
+  expect(config.tools).toEqual([
+    { googleSearch: {} },
+    {
+      functionDeclarations: [
+        { name: "add", description: "Adds two numbers.", parameters: addTool.parameters },
+      ],
+    },
+  ]);
+
+  await tools.handleToolCall({
+    functionCalls: [
+      { id: "1", name: "add", args: { a: 2, b: 3 } },
+      { id: "2", name: "add", args: { a: 2 } },
+      { id: "3", name: "add", args: { a: "2", b: 3 } },
+      { id: "4", name: "add", args: { a: 2, b: 11 } },
+      { id: "5", name: "add", args: { a: 2, b: 3, note: "later" } },
+      { id: "6", name: "subtract", args: {} },
+    ],
+  });
+  expect(responses()).toEqual([
+    [
+      { id: "1", output: 5 },
+      { id: "2", error: '"b" is required' },
+      { id: "3", error: '"a" must be a number' },
+      { id: "4", error: '"b" must be at most 10' },
+      { id: "5", error: '"note" must be one of quick, slow' },
+      { id: "6", error: 'unknown function "subtract"' },
+    ],
+  ]);
+
+  unregister();
+  expect(tools.declarations()).toEqual([]);
+});
+
+test("slow handlers time out and cancelled calls are aborted", async () => {
+  const { client, tools, responses } = setup();
+  const signals: AbortSignal[] = [];
+  tools.register(
+    addTool,
+    defineTool({
+      name: "wait",
+      description: "Never finishes on its own.",
+      handler: (_, { signal }) => {
+        signals.push(signal);
+        return new Promise(() => {});
+      },
+    })
+  );
+
+  await tools.handleToolCall({ functionCalls: [{ id: "1", name: "wait" }] });
+  expect(responses()).toEqual([[{ id: "1", error: "wait timed out after 50 ms" }]]);
+  expect(signals[0].aborted).toBe(true);
+
+  const done = tools.handleToolCall({
+    functionCalls: [
+      { id: "2", name: "wait" },
+      { id: "3", name: "add", args: { a: 1, b: 1 } },
+    ],
+  });
+  client.emit("toolcallcancellation", { ids: ["2"] });
+  await done;
+  expect(signals[1].aborted).toBe(true);
+  // the cancelled call is left unanswered
+  expect(responses()[1]).toEqual([{ id: "3", output: 2 }]);
+});
+
+test("calls without ids are tracked apart and send failures are logged", async () => {
+  const { client, tools, responses } = setup();
+  tools.register(
+    defineTool({
+      name: "wait",
+      description: "Never finishes on its own.",
+      handler: () => new Promise(() => {}),
+    })
+  );
+
+  // both arrive within the same millisecond
+  jest.spyOn(Date, "now").mockReturnValue(1000);
+  await tools.handleToolCall({ functionCalls: [{ name: "wait" }, { name: "wait" }] });
+  expect(responses()).toEqual([
+    [
+      { id: undefined, error: "wait timed out after 50 ms" },
+      { id: undefined, error: "wait timed out after 50 ms" },
+    ],
+  ]);
+
+  const logs: string[] = [];
+  client.on("log", ({ type, message }) => logs.push(`${type}: ${message}`));
+  jest.spyOn(client, "sendToolResponse").mockImplementation(() => {
+    throw new Error("WebSocket is already in CLOSED state");
+  });
+  tools.register(addTool);
+  await tools.handleToolCall({
+    functionCalls: [{ id: "1", name: "add", args: { a: 1, b: 1 } }],
+  });
+  expect(logs).toEqual([
+    "tools.error: could not send tool response: WebSocket is already in CLOSED state",
+  ]);
+  jest.restoreAllMocks();
+});
@@ -0,0 +1,325 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  FunctionCall,
+  FunctionDeclaration,
+  FunctionResponse,
+  LiveConnectConfig,
+  LiveServerToolCall,
+  LiveServerToolCallCancellation,
+  Schema,
+  Type,
+} from "@google/genai";
+import { EventEmitter } from "eventemitter3";
+import { GenAILiveClient } from "./genai-live-client";
+
+/**
+ * Passed to a handler with its arguments. The signal aborts when the call
+ * times out or the server cancels it, the response is then discarded.
+ */
+export type ToolContext = {
+  id?: string;
+  signal: AbortSignal;
+};
+
+/** the response payload, conventionally { output, ... } */
+export type ToolResult = Record<string, unknown>;
+
+export type ToolDefinition<Args = Record<string, unknown>> = {
+  name: string;
+  description: string;
+  // an OBJECT schema, arguments are checked against it before the handler runs
+  parameters?: Schema;
+  // overrides the registry's timeout
+  timeoutMs?: number;
+  // throw to answer the call with { error: message }
+  handler: (args: Args, context: ToolContext) => ToolResult | Promise<ToolResult>;
+};
+
+/**
+ * Gives the handler of a tool typed arguments, the type should match
+ * the parameter schema
+ */
+export function defineTool<Args>(tool: ToolDefinition<Args>) {
+  return tool;
+}
+
+function fail(path: string, problem: string): never {
+  throw new Error(`"${path}" ${problem}`);
+}
+
+/**
+ * Checks untrusted arguments from the model against a parameter schema,
+ * throws naming the offending argument
+ */
+export function validateArgs(schema: Schema, value: unknown, path = "args") {
+  switch (schema.type) {
+    case Type.STRING:
+      if (typeof value !== "string") {
+        fail(path, "must be a string");
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        fail(path, `must be one of ${schema.enum.join(", ")}`);
+      }
+      break;
+    case Type.NUMBER:
+    case Type.INTEGER:
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        fail(path, "must be a number");
+      }
+      if (schema.type === Type.INTEGER && !Number.isInteger(value)) {
+        fail(path, "must be a whole number");
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        fail(path, `must be at least ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        fail(path, `must be at most ${schema.maximum}`);
+      }
+      break;
+    case Type.BOOLEAN:
+      if (typeof value !== "boolean") {
+        fail(path, "must be true or false");
+      }
+      break;
+    case Type.ARRAY:
+      if (!Array.isArray(value)) {
+        fail(path, "must be an array");
+      }
+      if (schema.items) {
+        const items = schema.items;
+        value.forEach((item, i) => validateArgs(items, item, `${path}[${i}]`));
+      }
+      break;
+    case Type.OBJECT: {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        fail(path, "must be an object");
+      }
+      const object = value as Record<string, unknown>;
+      schema.required?.forEach((key) => {
+        if (object[key] === undefined || object[key] === null) {
+          fail(key, "is required");
+        }
+      });
+      Object.entries(schema.properties || {}).forEach(([key, property]) => {
+        if (object[key] !== undefined && object[key] !== null) {
+          validateArgs(property, object[key], path === "args" ? key : `${path}.${key}`);
+        }
+      });
+      break;
+    }
+  }
+}
+
+/**
+ * Event types that can be emitted by the ToolRegistry.
+ */
+export interface ToolRegistryEventTypes {
+  // Emitted when tools are registered, unregistered or redescribed
+  change: () => void;
+}
+
+export type ToolRegistryOptions = {
+  // how long a handler may take before the call is answered with an error
+  timeoutMs?: number;
+};
+
+export const DEFAULT_TOOL_TIMEOUT_MS = 10000;
+
+/**
+ * Function calling for the live session.
+ * Each tool is declared once, with its schema, description and handler.
+ * The registry adds the declarations to the connect config, routes
+ * function calls to handlers by name, validates their arguments, and
+ * answers each tool call with one tool response. Slow handlers time out and
+ * calls the server cancels are aborted and left unanswered.
+ */
+export class ToolRegistry extends EventEmitter<ToolRegistryEventTypes> {
+  private tools = new Map<string, ToolDefinition<unknown>>();
+  private inFlight = new Map<string, AbortController>();
+  // keys in-flight calls that came without an id
+  private callCount = 0;
+  public timeoutMs: number;
+
+  constructor(
+    private client: GenAILiveClient,
+    options: ToolRegistryOptions = {}
+  ) {
+    super();
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+    this.handleToolCall = this.handleToolCall.bind(this);
+    this.cancel = this.cancel.bind(this);
+  }
+
+  attach() {
+    this.detach();
+    this.client
+      .on("toolcall", this.handleToolCall)
+      .on("toolcallcancellation", this.cancel);
+  }
+
+  detach() {
+    this.client
+      .off("toolcall", this.handleToolCall)
+      .off("toolcallcancellation", this.cancel);
+  }
+
+  get size() {
+    return this.tools.size;
+  }
+
+  has(name: string) {
+    return this.tools.has(name);
+  }
+
+  /**
+   * @returns A function that unregisters the tools again, for effect cleanup
+   */
+  register<Args extends unknown[]>(
+    ...tools: { [K in keyof Args]: ToolDefinition<Args[K]> }
+  ) {
+    tools.forEach((tool) => {
+      if (this.tools.has(tool.name)) {
+        throw new Error(`a tool named "${tool.name}" is already registered`);
+      }
+    });
+    // arguments are only known to match the schema, handlers get them as is
+    tools.forEach((tool) => this.tools.set(tool.name, tool as ToolDefinition<unknown>));
+    this.emit("change");
+    return () => this.unregister(...tools.map((tool) => tool.name));
+  }
+
+  unregister(...names: string[]) {
+    names.forEach((name) => this.tools.delete(name));
+    this.emit("change");
+  }
+
+  /**
+   * Replace the description of a registered tool, e.g. from the settings
+   * dialog, it is sent from the next connect on
+   */
+  describe(name: string, description: string) {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new Error(`no tool named "${name}"`);
+    }
+    this.tools.set(name, { ...tool, description });
+    this.emit("change");
+  }
+
+  declarations(): FunctionDeclaration[] {
+    return Array.from(this.tools.values()).map(({ name, description, parameters }) =>
+      parameters ? { name, description, parameters } : { name, description }
+    );
+  }
+
+  /**
+   * The connect config with the registered tools declared
+   */
+  withDeclarations(config: LiveConnectConfig): LiveConnectConfig {
+    if (!this.tools.size) {
+      return config;
+    }
+    return {
+      ...config,
+      tools: [...(config.tools || []), { functionDeclarations: this.declarations() }],
+    };
+  }
+
+  /**
+   * Run the function calls of a tool call and answer them together
+   * Handlers start synchronously, in the order of the calls
+   */
+  async handleToolCall(toolCall: LiveServerToolCall) {
+    const calls = toolCall.functionCalls || [];
+    if (!calls.length) {
+      return;
+    }
+    const responses = await Promise.all(calls.map((fc) => this.run(fc)));
+    const functionResponses = responses.filter(
+      (response): response is FunctionResponse => response !== null
+    );
+    try {
+      this.client.sendToolResponse({ functionResponses });
+    } catch (e) {
+      // e.g. the session closed while the handlers ran
+      this.client.emit("log", {
+        date: new Date(),
+        type: "tools.error",
+        message: `could not send tool response: ${e instanceof Error ? e.message : String(e)}`,
+      });
+    }
+  }
+
+  /**
+   * Abort in-flight calls, their responses are not sent
+   */
+  cancel({ ids }: LiveServerToolCallCancellation) {
+    ids?.forEach((id) => {
+      const controller = this.inFlight.get(id);
+      this.inFlight.delete(id);
+      controller?.abort();
+    });
+  }
+
+  /**
+   * @returns The function response, or null if the call was cancelled
+   */
+  private async run(fc: FunctionCall): Promise<FunctionResponse | null> {
+    const { id, name = "" } = fc;
+    const respond = (response: ToolResult) => ({ id, name, response });
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return respond({ error: `unknown function "${name}"` });
+    }
+
+    const controller = new AbortController();
+    const key = id ?? `${name}-${++this.callCount}`;
+    this.inFlight.set(key, controller);
+    const timeoutMs = tool.timeoutMs ?? this.timeoutMs;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const args = fc.args || {};
+      if (tool.parameters) {
+        validateArgs(tool.parameters, args);
+      }
+      const aborted = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => {
+          reject(new Error(`${name} timed out after ${timeoutMs} ms`));
+          controller.abort();
+        }, timeoutMs);
+        controller.signal.addEventListener("abort", () =>
+          reject(new Error(`${name} was cancelled`))
+        );
+      });
+      const result = await Promise.race([
+        tool.handler(args, { id, signal: controller.signal }),
+        aborted,
+      ]);
+      return respond(result);
+    } catch (e) {
+      if (controller.signal.aborted && !this.inFlight.has(key)) {
+        return null;
+      }
+      return respond({ error: e instanceof Error ? e.message : String(e) });
+    } finally {
+      clearTimeout(timeoutId);
+      this.inFlight.delete(key);
+    }
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { runInNewContext } from "vm";
+import { GenAILiveClient } from "./genai-live-client";
+import {
+  AudioSender,
+  defaultVadOptions,
+  withActivityDetection,
+} from "./voice-activity";
+import AudioRecordingWorklet from "./worklets/audio-processing";
+
+/** the recording worklet, with a port that collects its messages */
+function worklet() {
+  const events: string[] = [];
+  class AudioWorkletProcessor {
+    port = {
+      postMessage: (message: { event: string }) => events.push(message.event),
+    };
+  }
+  const Processor = runInNewContext(`(${AudioRecordingWorklet})`, {
+    AudioWorkletProcessor,
+  });
+  const processor = new Processor({ processorOptions: { vad: defaultVadOptions } });
+  const feed = (chunk: (i: number) => number, count = 1) => {
+    for (let n = 0; n < count; n++) {
+      processor.process([[Float32Array.from({ length: 2048 }, (_, i) => chunk(i))]]);
+    }
+  };
+  return { events, feed };
+}
+
+const silence = () => 0;
+// a 200Hz tone at 16kHz, voiced speech is mostly this low
+const voice = (i: number) => 0.3 * Math.sin((2 * Math.PI * 200 * i) / 16000);
+// alternating samples, like hiss
+const hiss = (i: number) => (i % 2 ? 0.3 : -0.3);
+
+test("the worklet detects speech with a hangover", () => {
+  const { events, feed } = worklet();
+  feed(silence, 2);
+  feed(hiss, 2);
+  expect(events).toEqual(["chunk", "chunk", "chunk", "chunk"]);
+
+  events.length = 0;
+  feed(voice);
+  // a short pause between words
+  feed(silence, 3);
+  feed(voice);
+  expect(events).toEqual(["speechstart", "chunk", "chunk", "chunk", "chunk", "chunk"]);
+
+  events.length = 0;
+  feed(silence, 6);
+  expect(events.slice(-2)).toEqual(["speechend", "chunk"]);
+});
+
+test("steady speech is not learned as background noise", () => {
+  const { events, feed } = worklet();
+  feed(silence, 2);
+  events.length = 0;
+  // five seconds without a pause
+  feed(voice, 40);
+  expect(events[0]).toBe("speechstart");
+  expect(events.slice(1)).toEqual(new Array(40).fill("chunk"));
+
+  events.length = 0;
+  feed(silence, 6);
+  expect(events.slice(-2)).toEqual(["speechend", "chunk"]);
+});
+
+test("silence is skipped, keeping a little before speech", () => {
+  const client = new GenAILiveClient({ apiKey: "test" });
+  const sent: string[] = [];
+  jest
+    .spyOn(client, "sendRealtimeInput")
+    .mockImplementation((chunks) => sent.push(chunks[0].data));
+  const sendActivity = jest.spyOn(client, "sendActivity").mockImplementation(() => {});
+
+  const sender = new AudioSender(client, "skip-silence");
+  ["a", "b", "c"].forEach((chunk) => sender.data(chunk));
+  expect(sent).toEqual([]);
+  sender.speechStart();
+  sender.data("d");
+  sender.speechEnd();
+  sender.data("e");
+  expect(sent).toEqual(["b", "c", "d"]);
+  expect(sendActivity.mock.calls).toEqual([["audioStreamEnd"]]);
+
+  const continuous = new AudioSender(client, "continuous");
+  continuous.data("f");
+  expect(sent).toEqual(["b", "c", "d", "f"]);
+});
+
+test("activity signals frame speech when server detection is off", () => {
+  const config = withActivityDetection({}, "activity-signals");
+  expect(config.realtimeInputConfig?.automaticActivityDetection?.disabled).toBe(true);
+  expect(withActivityDetection({}, "skip-silence")).toEqual({});
+
+  const client = new GenAILiveClient({ apiKey: "test" });
+  jest.spyOn(client, "getConfig").mockReturnValue(config);
+  jest.spyOn(client, "sendRealtimeInput").mockImplementation(() => {});
+  const sendActivity = jest.spyOn(client, "sendActivity").mockImplementation(() => {});
+
+  const sender = new AudioSender(client, "activity-signals");
+  sender.speechStart();
+  sender.speechEnd();
+  expect(sendActivity.mock.calls).toEqual([["activityStart"], ["activityEnd"]]);
+});
+
+test("stopping the microphone ends the audio stream", () => {
+  const client = new GenAILiveClient({ apiKey: "test" });
+  jest.spyOn(client, "sendRealtimeInput").mockImplementation(() => {});
+  const sendActivity = jest.spyOn(client, "sendActivity").mockImplementation(() => {});
+
+  const sender = new AudioSender(client, "continuous");
+  sender.speechStart();
+  sender.stop();
+  expect(sendActivity.mock.calls).toEqual([["audioStreamEnd"]]);
+});
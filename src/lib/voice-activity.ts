@@ -0,0 +1,172 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { LiveConnectConfig } from "@google/genai";
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { GenAILiveClient } from "./genai-live-client";
+
+/**
+ * Settings for the voice activity detection in the recording worklet,
+ * which classifies each 2048 sample chunk (128ms at 16kHz)
+ */
+export type VadOptions = {
+  // root mean square level, from 0 to 1, below which a chunk is never speech
+  minEnergy: number;
+  // how many times louder than the background speech has to be
+  noiseRatio: number;
+  // fraction of samples that change sign, above it a chunk is noise
+  maxZeroCrossingRate: number;
+  // quiet chunks before speech is considered over
+  hangoverChunks: number;
+};
+
+export const defaultVadOptions: VadOptions = {
+  minEnergy: 0.01,
+  noiseRatio: 3,
+  maxZeroCrossingRate: 0.3,
+  hangoverChunks: 6,
+};
+
+/**
+ * What is sent while the user is silent:
+ * - continuous: every chunk, the server detects speech
+ * - skip-silence: only speech, with audioStreamEnd after each utterance
+ * - activity-signals: only speech, framed by activityStart and activityEnd,
+ *   the server's own detection is turned off from the next connect
+ */
+export type AudioSendMode = "continuous" | "skip-silence" | "activity-signals";
+
+// quiet chunks kept and sent when speech starts, so the first syllable
+// is not cut off
+const PREROLL_CHUNKS = 2;
+
+/**
+ * turns off the server's activity detection for activity-signals
+ */
+export function withActivityDetection(
+  config: LiveConnectConfig,
+  mode: AudioSendMode
+): LiveConnectConfig {
+  if (mode !== "activity-signals") {
+    return config;
+  }
+  return {
+    ...config,
+    realtimeInputConfig: {
+      ...config.realtimeInputConfig,
+      automaticActivityDetection: {
+        ...config.realtimeInputConfig?.automaticActivityDetection,
+        disabled: true,
+      },
+    },
+  };
+}
+
+/**
+ * Sends microphone chunks from AudioRecorder according to the send mode
+ * Signals are only sent when the session was connected with the server's
+ * activity detection disabled, otherwise activity-signals skips silence
+ */
+export class AudioSender {
+  private speaking = false;
+  private preroll: string[] = [];
+
+  constructor(
+    private client: GenAILiveClient,
+    private mode: AudioSendMode
+  ) {}
+
+  private get signals() {
+    return !!this.client.getConfig().realtimeInputConfig?.automaticActivityDetection
+      ?.disabled;
+  }
+
+  data(base64: string) {
+    if (this.mode === "continuous" && !this.signals) {
+      this.send(base64);
+      return;
+    }
+    if (this.speaking) {
+      this.send(base64);
+      return;
+    }
+    this.preroll.push(base64);
+    if (this.preroll.length > PREROLL_CHUNKS) {
+      this.preroll.shift();
+    }
+  }
+
+  speechStart() {
+    this.speaking = true;
+    if (this.signals) {
+      this.client.sendActivity("activityStart");
+    }
+    this.preroll.forEach((chunk) => this.send(chunk));
+    this.preroll = [];
+  }
+
+  speechEnd() {
+    if (!this.speaking) {
+      return;
+    }
+    this.speaking = false;
+    if (this.signals) {
+      this.client.sendActivity("activityEnd");
+    } else if (this.mode === "skip-silence") {
+      this.client.sendActivity("audioStreamEnd");
+    }
+  }
+
+  /**
+   * the microphone stopped, e.g. muted or push-to-talk released, so the
+   * server does not wait for silence that will never come
+   */
+  stop() {
+    this.speechEnd();
+    this.preroll = [];
+    if (this.mode === "continuous" && !this.signals) {
+      this.client.sendActivity("audioStreamEnd");
+    }
+  }
+
+  private send(base64: string) {
+    this.client.sendRealtimeInput([
+      {
+        mimeType: "audio/pcm;rate=16000",
+        data: base64,
+      },
+    ]);
+  }
+}
+
+interface VoiceActivityStoreState {
+  sendMode: AudioSendMode;
+  setSendMode: (sendMode: AudioSendMode) => void;
+}
+
+/**
+ * The send mode chosen in settings, kept across reloads
+ */
+export const useVoiceActivityStore = create<VoiceActivityStoreState>()(
+  persist(
+    (set) => ({
+      sendMode: "continuous",
+      setSendMode: (sendMode: AudioSendMode) => set({ sendMode }),
+    }),
+    { name: "lumex-voice-activity" }
+  )
+);
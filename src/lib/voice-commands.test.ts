@@ -0,0 +1,145 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { useCaptureStore } from "./capture-profiles";
+import { GenAILiveClient } from "./genai-live-client";
+import { NavigationController } from "./navigation-controller";
+import { ToolRegistry } from "./tool-registry";
+import { parseVoiceCommand, VoiceCommands } from "./voice-commands";
+
+test("intents are recognised in transcripts", () => {
+  expect(parseVoiceCommand("Please guide me to the kitchen door.")).toEqual({
+    type: "navigate",
+    goal: "kitchen door",
+  });
+  expect(parseVoiceCommand("Take me back")).toEqual({ type: "retrace" });
+  expect(parseVoiceCommand("Okay, done!")).toEqual({ type: "next" });
+  expect(parseVoiceCommand("Can you repeat that?")).toEqual({ type: "repeat" });
+  expect(parseVoiceCommand("stop navigating")).toEqual({ type: "stop" });
+  expect(parseVoiceCommand("Where am I?")).toEqual({ type: "where-am-i" });
+  expect(parseVoiceCommand("What's around me")).toEqual({ type: "whats-around" });
+  expect(parseVoiceCommand("Can you read this label?")).toEqual({
+    type: "capture",
+    profile: "reading",
+  });
+  expect(parseVoiceCommand("Battery saver please")).toEqual({
+    type: "capture",
+    profile: "battery-saver",
+  });
+  expect(parseVoiceCommand("I think the next room is cold")).toBeNull();
+});
+
+test("commands drive navigation and answer function calls", async () => {
+  const client = new GenAILiveClient({ apiKey: "test" });
+  jest.spyOn(client, "send").mockImplementation(() => {});
+  const sendToolResponse = jest
+    .spyOn(client, "sendToolResponse")
+    .mockImplementation(() => {});
+  const navigation = new NavigationController(client);
+  const commands = new VoiceCommands(client, navigation);
+  const tools = new ToolRegistry(client);
+  commands.attach();
+  tools.register(commands.tool());
+
+  commands.handleTranscript("guide me to the window");
+  expect(navigation.status).toBe("planning");
+  expect(client.sceneMemory.goalDescription).toBe("window");
+
+  navigation.handleReply("Take 3 steps forward. You have arrived at the window.");
+  expect(navigation.status).toBe("awaiting-step-confirmation");
+  await tools.handleToolCall({
+    functionCalls: [
+      { id: "1", name: "navigation_command", args: { intent: "next" } },
+    ],
+  });
+  expect(navigation.status).toBe("arrived");
+  expect(sendToolResponse.mock.calls[0][0].functionResponses![0].response)
+    .toMatchObject({ output: "you have arrived" });
+
+  // heard once through the transcript, then again as a function call
+  commands.handleTranscript("guide me to the door");
+  await tools.handleToolCall({
+    functionCalls: [
+      {
+        id: "2",
+        name: "navigation_command",
+        args: { intent: "navigate", goal: "door" },
+      },
+    ],
+  });
+  expect(client.sceneMemory.goalDescription).toBe("door");
+  expect(sendToolResponse.mock.calls[1][0].functionResponses![0].response)
+    .toMatchObject({ output: "already done" });
+
+  commands.handleTranscript("stop navigating");
+  expect(navigation.status).toBe("aborted");
+
+  commands.handleTranscript("reading mode");
+  expect(useCaptureStore.getState().profile).toBe("reading");
+});
+
+test("different goals and profiles in a row are all run", () => {
+  const client = new GenAILiveClient({ apiKey: "test" });
+  jest.spyOn(client, "send").mockImplementation(() => {});
+  const navigation = new NavigationController(client);
+  const commands = new VoiceCommands(client, navigation);
+
+  commands.handleTranscript("guide me to the door");
+  commands.handleTranscript("guide me to the kitchen");
+  expect(client.sceneMemory.goalDescription).toBe("kitchen");
+
+  commands.handleTranscript("reading mode");
+  commands.handleTranscript("battery saver");
+  expect(useCaptureStore.getState().profile).toBe("battery-saver");
+});
+
+test("a spoken question is answered once", async () => {
+  const client = new GenAILiveClient({ apiKey: "test" });
+  const send = jest.spyOn(client, "send").mockImplementation(() => {});
+  const sendToolResponse = jest
+    .spyOn(client, "sendToolResponse")
+    .mockImplementation(() => {});
+  const navigation = new NavigationController(client);
+  const commands = new VoiceCommands(client, navigation);
+  const tools = new ToolRegistry(client);
+  commands.attach();
+  tools.register(commands.tool());
+
+  // the model ran the command it heard, its function response is the answer
+  client.emit("inputtranscription", "where am I", true);
+  await tools.handleToolCall({
+    functionCalls: [
+      { id: "1", name: "navigation_command", args: { intent: "where-am-i" } },
+    ],
+  });
+  client.emit("turncomplete");
+  expect(send).not.toHaveBeenCalled();
+  expect(sendToolResponse.mock.calls[0][0].functionResponses![0].response)
+    .toMatchObject({ output: expect.stringContaining("the user is at [0, 0]") });
+
+  // the model did not, so the answer is asked for after its turn
+  jest.spyOn(Date, "now").mockReturnValue(Date.now() + 5000);
+  client.emit("inputtranscription", "where am I", true);
+  expect(send).not.toHaveBeenCalled();
+  client.emit("turncomplete");
+  expect(send).toHaveBeenCalledTimes(1);
+  expect(send.mock.calls[0][0]).toEqual([
+    { text: expect.stringContaining("Tell me this briefly: the user is at") },
+  ]);
+  client.emit("turncomplete");
+  expect(send).toHaveBeenCalledTimes(1);
+  jest.restoreAllMocks();
+});
@@ -0,0 +1,350 @@
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Type } from "@google/genai";
+import { EventEmitter } from "eventemitter3";
+import { GenAILiveClient } from "./genai-live-client";
+import { NavigationController } from "./navigation-controller";
+import { clockPosition, distanceBetween, relativeBearing } from "./spatial";
+import {
+  CAPTURE_PROFILE_NAMES,
+  CaptureProfileName,
+  captureProfiles,
+  useCaptureStore,
+} from "./capture-profiles";
+import { defineTool } from "./tool-registry";
+
+/**
+ * What the user asked for, recognised from what they said
+ */
+export type VoiceIntent =
+  | { type: "navigate"; goal: string }
+  | { type: "retrace" }
+  | { type: "next" }
+  | { type: "repeat" }
+  | { type: "stop" }
+  | { type: "where-am-i" }
+  | { type: "whats-around" }
+  | { type: "reset" }
+  | { type: "capture"; profile: CaptureProfileName };
+
+export type VoiceIntentType = VoiceIntent["type"];
+
+const INTENT_TYPES: VoiceIntentType[] = [
+  "navigate",
+  "retrace",
+  "next",
+  "repeat",
+  "stop",
+  "where-am-i",
+  "whats-around",
+  "reset",
+  "capture",
+];
+
+// checked in order, retrace before navigate so "take me back" is not a goal
+const PATTERNS: [VoiceIntentType, RegExp][] = [
+  ["retrace", /\b(?:take|bring|lead|guide) me back\b|\bgo back the way i came\b/],
+  [
+    "navigate",
+    /\b(?:guide|take|bring|lead|help|navigate) me (?:to|towards?|get to)\s+(?:the\s+)?(.+)|\bnavigate to\s+(?:the\s+)?(.+)/,
+  ],
+  ["stop", /\b(?:stop|cancel|end|quit) (?:the )?(?:navigating|navigation|guiding|guidance)\b/],
+  ["reset", /\b(?:forget (?:this|the) (?:room|place|scene)|start over|new room)\b/],
+  // groups: reading, battery saver, navigation
+  [
+    "capture",
+    /\b(reading mode|read (?:this|that|the (?:sign|label|text))|help me read)\b|\b(battery saver|save (?:the )?battery|low power mode)\b|\b(navigation mode|walking mode)\b/,
+  ],
+  ["where-am-i", /\bwhere am i\b/],
+  ["whats-around", /\bwhat(?:'s| is) (?:around|near) me\b|\bdescribe (?:my|the) surroundings\b/],
+  ["repeat", /\b(?:repeat(?: that| the step)?|say (?:that|it) again|what was the step)\b/],
+  // only short utterances, "next" inside a sentence is rarely a confirmation
+  ["next", /^(?:ok(?:ay)? )?(?:done|next|next step|i'?m done|i did it|finished|got it)(?: now)?$/],
+];
+
+/**
+ * Recognises a navigation command in a transcript of what the user said
+ * Returns null for ordinary speech, which is left to the model
+ */
+export function parseVoiceCommand(text: string): VoiceIntent | null {
+  const utterance = text
+    .toLowerCase()
+    .replace(/[^a-z0-9' ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  for (const [type, pattern] of PATTERNS) {
+    const match = utterance.match(pattern);
+    if (!match) {
+      continue;
+    }
+    if (type === "navigate") {
+      const goal = (match[1] || match[2] || "").trim();
+      return goal ? { type, goal } : null;
+    }
+    if (type === "capture") {
+      const profile = match[1] ? "reading" : match[2] ? "battery-saver" : "navigation";
+      return { type, profile };
+    }
+    return { type } as VoiceIntent;
+  }
+  return null;
+}
+
+/**
+ * Event types that can be emitted by VoiceCommands.
+ */
+export interface VoiceCommandEventTypes {
+  // Emitted after a command ran, result is what the user should be told
+  command: (intent: VoiceIntent, result: string) => void;
+}
+
+// the same command from a transcript and a function call is only run once
+const DUPLICATE_WINDOW_MS = 3000;
+
+// goals compare without case and leading article, "the door" is "door"
+function intentKey(intent: VoiceIntent) {
+  const goal =
+    intent.type === "navigate"
+      ? intent.goal.toLowerCase().trim().replace(/^(?:the|a|an)\s+/, "")
+      : undefined;
+  const profile = intent.type === "capture" ? intent.profile : undefined;
+  return JSON.stringify([intent.type, goal, profile]);
+}
+
+// commands that answer a question rather than change something
+const ANSWERS: VoiceIntentType[] = ["repeat", "where-am-i", "whats-around"];
+
+/**
+ * Hands-free navigation control on top of the live session.
+ * Commands are recognised in input transcriptions of the user's speech,
+ * or arrive as navigation_command function calls when the tool from
+ * tool() is registered, and drive the NavigationController and scene memory.
+ */
+export class VoiceCommands extends EventEmitter<VoiceCommandEventTypes> {
+  private lastCommand: { key: string; at: number } | null = null;
+  // an answer to a spoken question, sent when the model's turn ends
+  // without it having run the command through navigation_command
+  private pendingAnswer: { key: string; text: string } | null = null;
+
+  constructor(
+    private client: GenAILiveClient,
+    private navigation: NavigationController
+  ) {
+    super();
+    this.onInputTranscription = this.onInputTranscription.bind(this);
+    this.onTurnComplete = this.onTurnComplete.bind(this);
+  }
+
+  attach() {
+    this.detach();
+    this.client
+      .on("inputtranscription", this.onInputTranscription)
+      .on("turncomplete", this.onTurnComplete);
+  }
+
+  detach() {
+    this.client
+      .off("inputtranscription", this.onInputTranscription)
+      .off("turncomplete", this.onTurnComplete);
+    this.pendingAnswer = null;
+  }
+
+  private onInputTranscription(text: string, finished: boolean) {
+    if (finished) {
+      this.handleTranscript(text, true);
+    }
+  }
+
+  private onTurnComplete() {
+    const answer = this.pendingAnswer;
+    this.pendingAnswer = null;
+    if (answer) {
+      this.client.send([{ text: answer.text }], true, true);
+    }
+  }
+
+  /**
+   * Run the command in a transcript, if there is one
+   * Commands that answer a question ask the model to speak the answer
+   *
+   * @param heardByModel - The text is what the model heard too, so the
+   * answer waits for its turn and is dropped if it ran the command itself
+   * @returns The recognised intent, or null for ordinary speech
+   */
+  handleTranscript(text: string, heardByModel = false): VoiceIntent | null {
+    const intent = parseVoiceCommand(text);
+    if (!intent || this.isDuplicate(intent)) {
+      return intent;
+    }
+    const result = this.execute(intent);
+    if (ANSWERS.includes(intent.type)) {
+      const answer = `Tell me this briefly: ${result}`;
+      if (heardByModel) {
+        this.pendingAnswer = { key: intentKey(intent), text: answer };
+      } else {
+        this.client.send([{ text: answer }], true, true);
+      }
+    }
+    return intent;
+  }
+
+  private isDuplicate(intent: VoiceIntent, now = Date.now()) {
+    const key = intentKey(intent);
+    const duplicate =
+      this.lastCommand?.key === key &&
+      now - this.lastCommand.at < DUPLICATE_WINDOW_MS;
+    this.lastCommand = { key, at: now };
+    return duplicate;
+  }
+
+  /**
+   * Apply a command to navigation and scene memory
+   *
+   * @returns What the user should be told
+   */
+  execute(intent: VoiceIntent): string {
+    const { navigation, client } = this;
+    let result: string;
+    switch (intent.type) {
+      case "navigate":
+        navigation.start(intent.goal);
+        result = `navigating to ${intent.goal}`;
+        break;
+      case "retrace":
+        result = navigation.retrace()
+          ? `going back, first step: ${navigation.steps[0].instruction}`
+          : "there are no recorded moves to go back along";
+        break;
+      case "next": {
+        if (navigation.status !== "awaiting-step-confirmation") {
+          result = "there is no step waiting to be confirmed";
+          break;
+        }
+        const { isComplete } = navigation.steps[navigation.currentStep];
+        navigation.confirmStep();
+        result = isComplete
+          ? "you have arrived"
+          : "step confirmed, waiting for the next instruction";
+        break;
+      }
+      case "repeat": {
+        const step = navigation.steps[navigation.currentStep];
+        result =
+          navigation.status === "awaiting-step-confirmation" && step
+            ? `the current step is: ${step.instruction}`
+            : "repeat the last thing you said";
+        break;
+      }
+      case "stop":
+        navigation.abort("stopped by voice");
+        result = "navigation stopped";
+        break;
+      case "where-am-i":
+        result = this.describePosition();
+        break;
+      case "whats-around":
+        result = "describe the objects in scene memory around the user by clock position and distance";
+        break;
+      case "reset":
+        navigation.abort("scene reset");
+        client.resetScene();
+        result = "scene memory cleared";
+        break;
+      case "capture":
+        useCaptureStore.getState().setProfile(intent.profile);
+        result = `camera set to ${captureProfiles[intent.profile].label.toLowerCase()}`;
+        break;
+    }
+    this.emit("command", intent, result);
+    return result;
+  }
+
+  /**
+   * position and heading in words, with the nearest remembered object
+   */
+  private describePosition() {
+    const { user, heading, objects } = this.client.sceneMemory;
+    let text = `the user is at [${user[0]}, ${user[1]}], ${Math.round(heading)} degrees from their starting direction`;
+    const nearest = objects
+      .filter((obj) => !obj.stale)
+      .sort(
+        (a, b) =>
+          distanceBetween(user, a.position) - distanceBetween(user, b.position)
+      )[0];
+    if (nearest) {
+      const clock = clockPosition(relativeBearing(user, heading, nearest.position));
+      const distance = Math.round(distanceBetween(user, nearest.position) * 10) / 10;
+      text += `, the nearest object is the ${nearest.label} at ${clock} o'clock, ${distance} steps away`;
+    }
+    return text;
+  }
+
+  /**
+   * Lets the model pass on a command it heard, for when transcripts are off
+   * Register it with the ToolRegistry
+   */
+  tool() {
+    return defineTool<{
+      intent: VoiceIntentType;
+      goal?: string;
+      profile?: CaptureProfileName;
+    }>({
+      name: "navigation_command",
+      description:
+        "Runs a navigation command the user spoke: start guiding to a place, go back the way they came, confirm the current step is done, repeat the current step, stop navigating, say where they are, describe what is around them, forget the current room, or switch the camera between navigation, reading and battery saver.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          intent: {
+            type: Type.STRING,
+            enum: INTENT_TYPES,
+            description: "Which command the user gave.",
+          },
+          goal: {
+            type: Type.STRING,
+            description: "Where the user wants to go, required for 'navigate'.",
+          },
+          profile: {
+            type: Type.STRING,
+            enum: CAPTURE_PROFILE_NAMES,
+            description: "Camera profile, required for 'capture'.",
+          },
+        },
+        required: ["intent"],
+      },
+      handler: ({ intent: type, goal, profile }) => {
+        if (type === "navigate" && !goal) {
+          throw new Error(`"goal" is required to navigate`);
+        }
+        if (type === "capture" && !profile) {
+          throw new Error(`"profile" is required to switch the camera`);
+        }
+        const intent = { type, goal, profile } as VoiceIntent;
+        // the model answers with the function response
+        if (this.pendingAnswer?.key === intentKey(intent)) {
+          this.pendingAnswer = null;
+        }
+        // a question heard in the transcript is still answered here
+        const output =
+          this.isDuplicate(intent) && !ANSWERS.includes(intent.type)
+            ? "already done"
+            : this.execute(intent);
+        return { output, scene: this.client.getSceneContext() };
+      },
+    });
+  }
+}
@@ -24,9 +24,17 @@ class AudioProcessingWorklet extends AudioWorkletProcessor {
   // current write index
   bufferWriteIndex = 0;
 
-  constructor() {
+  constructor(options) {
     super();
     this.hasAudio = false;
+
+    // voice activity detection, see VadOptions in voice-activity.ts
+    this.vad = options.processorOptions.vad;
+    // tracks the background level, quiet chunks pull it down quickly
+    // and loud ones push it up slowly, so steady noise stops counting as speech
+    this.noiseFloor = 0;
+    this.speaking = false;
+    this.silentChunks = 0;
   }
 
   /**
@@ -42,6 +50,7 @@ class AudioProcessingWorklet extends AudioWorkletProcessor {
   }
 
   sendAndClearBuffer(){
+    this.detectSpeech(this.buffer, this.bufferWriteIndex);
     this.port.postMessage({
       event: "chunk",
       data: {
@@ -51,6 +60,52 @@ class AudioProcessingWorklet extends AudioWorkletProcessor {
     this.bufferWriteIndex = 0;
   }
 
+  /**
+   * speech is loud compared with the background and, unlike hiss and wind,
+   * crosses zero relatively rarely
+   * speechend waits hangoverChunks quiet chunks, so pauses between words
+   * do not end the utterance
+   */
+  detectSpeech(samples, length) {
+    if (!length) {
+      return;
+    }
+    let sum = 0;
+    let crossings = 0;
+    for (let i = 0; i < length; i++) {
+      const value = samples[i] / 32768;
+      sum += value * value;
+      if (i > 0 && (samples[i] >= 0) !== (samples[i - 1] >= 0)) {
+        crossings++;
+      }
+    }
+    const energy = Math.sqrt(sum / length);
+    const zeroCrossingRate = crossings / length;
+
+    const voiced =
+      energy > Math.max(this.vad.minEnergy, this.noiseFloor * this.vad.noiseRatio) &&
+      zeroCrossingRate < this.vad.maxZeroCrossingRate;
+
+    // the background is only learned from quiet, otherwise steady speech
+    // raises the floor until it no longer counts as speech
+    if (energy < this.noiseFloor) {
+      this.noiseFloor = this.noiseFloor * 0.7 + energy * 0.3;
+    } else if (!voiced && !this.speaking) {
+      this.noiseFloor = this.noiseFloor * 0.98 + energy * 0.02;
+    }
+
+    if (voiced) {
+      this.silentChunks = 0;
+      if (!this.speaking) {
+        this.speaking = true;
+        this.port.postMessage({ event: "speechstart" });
+      }
+    } else if (this.speaking && ++this.silentChunks >= this.vad.hangoverChunks) {
+      this.speaking = false;
+      this.port.postMessage({ event: "speechend" });
+    }
+  }
+
   processChunk(float32Array) {
     const l = float32Array.length;
     
@@ -20,11 +20,33 @@ import {
   LiveServerMessage,
   Part,
 } from "@google/genai";
+import { SceneStore } from "./lib/scene-store";
 
 /**
  * the options to initiate the client, ensure apiKey is required
  */
-export type LiveClientOptions = GoogleGenAIOptions & { apiKey: string };
+export type LiveClientOptions = GoogleGenAIOptions & {
+  apiKey: string;
+  // pass false to disable automatic reconnection
+  reconnect?: Partial<ReconnectPolicy> | false;
+  // where named scene maps are persisted, scenes are not saved without one
+  sceneStore?: SceneStore;
+  // base url of a local mock Live server, e.g. "http://localhost:9090",
+  // used instead of the Gemini API for offline development and tests
+  mockServerUrl?: string;
+};
+
+/**
+ * how the client retries after the websocket drops unexpectedly
+ */
+export type ReconnectPolicy = {
+  maxAttempts: number; // give up after this many consecutive failures
+  initialDelayMs: number; // delay before the first retry
+  maxDelayMs: number; // upper bound for a single delay
+  multiplier: number; // exponential growth factor between attempts
+  jitter: number; // 0..1, fraction of each delay that is randomised
+  resumeSession: boolean; // reconnect with the last session resumption handle
+};
 
 /** log types */
 export type StreamingLog = {
@@ -50,28 +72,47 @@ export type ClientContentLog = {
 // Represents a 2D position in the scene
 export type Position = [number, number];
 
-// Represents an object detected in the scene with name and position
+// Represents an object detected in the scene with a stable identity and position
 export interface SceneObject {
-  name: string;
+  id: string; // Generated when first observed, e.g. "chair-2"
+  category: string; // What kind of object it is, e.g. "chair"
+  label: string; // How to refer to it, e.g. "red chair by the window"
   position: Position;
   description?: string; // Optional description for more context
   timestamp?: number; // When the object was detected
+  confidence?: number; // 0..1 certainty when last observed, decays with age
+  stale?: boolean; // Set once the decayed confidence drops below the stale threshold
 }
 
+// A sighting of an object, matched against remembered objects to find its id
+export type SceneObservation = Omit<
+  SceneObject,
+  "id" | "label" | "timestamp" | "stale"
+> & {
+  id?: string; // Update this object instead of matching by category and proximity
+  label?: string; // Defaults to the category
+};
+
 // The complete scene state tracking user and objects
 export interface SceneMemory {
   user: Position; // Current user position [x, y]
+  heading: number; // Direction the user faces in degrees, clockwise from forward (+x)
   objects: SceneObject[]; // List of detected objects in the scene
   goal?: Position; // Optional goal position the user wants to reach
   goalDescription?: string; // Description of the goal (e.g., "other side of the room")
-  history: SceneSnapshot[]; // History of scene states for tracking movement
+  history: SceneSnapshot[]; // Bounded, compressed history of scene states for tracking movement
 }
 
 // Snapshot of scene at a point in time
+// The oldest snapshot holds every object, later ones only the difference
+// from the snapshot before them, see lib/scene-history.ts
 export interface SceneSnapshot {
   timestamp: number;
   user: Position;
-  objects: SceneObject[];
+  heading: number;
+  objects?: SceneObject[]; // Every object, only on the oldest snapshot
+  changed?: SceneObject[]; // Objects added or updated since the previous snapshot
+  removed?: string[]; // Ids of objects removed since the previous snapshot
   action?: string; // What action was taken to reach this state
 }
 
@@ -83,8 +124,22 @@ export interface NavigationStep {
   nextStep?: string; // Preview of what comes next
 }
 
+// Where a navigation session is:
+// - planning: the goal was sent, waiting for the model's first instructions
+// - awaiting-step-confirmation: the current step was given, waiting for the user to do it
+// - executing: the user confirmed a step, waiting for the model's next instructions
+// - arrived / aborted: the session ended, idle before the first session
+export type NavigationStatus =
+  | "idle"
+  | "planning"
+  | "awaiting-step-confirmation"
+  | "executing"
+  | "arrived"
+  | "aborted";
+
 // Navigation state for multi-step guidance
 export interface NavigationState {
+  status: NavigationStatus;
   active: boolean; // Whether navigation is currently active
   currentStep: number; // Current step index
   steps: NavigationStep[]; // All steps in the current navigation